@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { MockMCPHost, StdioTransport, expectProtocolViolation } from '../src';
+
+/**
+ * JSON-RPC batches
+ *
+ * sendBatch sends several messages at once. Each request is answered on its
+ * own, responses may arrive in any order, and the interceptor records the
+ * batch as a unit as well as message by message.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test.describe('sendBatch with mocks', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ protocolVersion: '2025-03-26' });
+    host.registerTool({ name: 'wait', inputSchema: { type: 'object' } }, async ({ ms }) => {
+      await delay(Number(ms));
+      return { content: [{ type: 'text', text: `waited ${ms}` }] };
+    });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('answers every request and returns responses as they arrive', async () => {
+    const responses = await host.sendBatch([
+      { method: 'tools/call', params: { name: 'wait', arguments: { ms: 60 } } },
+      { method: 'tools/call', params: { name: 'wait', arguments: { ms: 0 } } },
+      { method: 'ping' },
+    ]);
+
+    expect(responses.map(r => r.id).sort()).toEqual([1, 2, 3]);
+    // The slow call was sent first but answered last
+    expect(responses[responses.length - 1]).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { content: [{ type: 'text', text: 'waited 60' }] },
+    });
+  });
+
+  test('unmocked methods get an error element, not a failed batch', async () => {
+    const responses = await host.sendBatch([{ method: 'ping' }, { method: 'unknown/method' }]);
+
+    expect(responses.find(r => r.id === 2)?.error?.code).toBe(-32601);
+    expect(responses.find(r => r.id === 1)?.result).toEqual({});
+  });
+
+  test('the interceptor records the batch as a unit and message by message', async () => {
+    await host.sendRequest('ping');
+    await host.sendBatch([
+      { method: 'tools/list' },
+      { method: 'notifications/roots/list_changed', notification: true },
+    ]);
+
+    const batches = host.getInterceptor().getRecordedBatches();
+    expect(batches).toHaveLength(1);
+    expect(batches[0].messages.map(m => m.method)).toEqual(['tools/list', 'notifications/roots/list_changed']);
+    expect(batches[0].responses.map(r => r.id)).toEqual([2]);
+
+    expect(host.getInterceptor().findRequestsByMethod('tools/list')).toHaveLength(1);
+    expect(host.getInterceptor().getRecordedTraffic().filter(e => e.batchId !== undefined)).toHaveLength(3);
+  });
+
+  test('rejects an empty batch', async () => {
+    await expect(host.sendBatch([])).rejects.toThrow('at least one message');
+  });
+});
+
+test.describe('sendBatch in strict mode', () => {
+  test('is refused under a protocol version without batching', async () => {
+    const host = new MockMCPHost({ strict: true, protocolVersion: '2025-06-18' });
+    await host.initialize();
+
+    await expect(host.sendBatch([{ method: 'ping' }])).rejects.toThrow(/not supported in protocol version 2025-06-18/);
+    expectProtocolViolation(host.getInterceptor(), 'batch.unsupported');
+    await host.cleanup();
+  });
+
+  test('initialize may not be batched', async () => {
+    const host = new MockMCPHost({ strict: true, protocolVersion: '2025-03-26' });
+
+    const [response] = await host.sendBatch([{ method: 'initialize', params: {} }]);
+
+    expect(response.error?.code).toBe(-32600);
+    expectProtocolViolation(host.getInterceptor(), 'lifecycle.initialize-in-batch');
+    await host.cleanup();
+  });
+});
+
+test.describe('sendBatch over stdio', () => {
+  test('sends one batch line and correlates the array response', async () => {
+    const host = new MockMCPHost({
+      protocolVersion: '2025-03-26',
+      transport: new StdioTransport({ command: process.execPath, args: [SERVER] }),
+    });
+    await host.initialize();
+
+    const responses = await host.sendBatch([
+      { method: 'tools/call', params: { name: 'echo', arguments: { text: 'slow', delay: 50 } } },
+      { method: 'tools/call', params: { name: 'echo', arguments: { text: 'fast' } } },
+    ]);
+
+    const texts = responses.map(r => (r.result as { content: Array<{ text: string }> }).content[0].text);
+    expect(texts).toEqual(['fast', 'slow']);
+    expect(host.getInterceptor().getRecordedBatches()[0].responses).toHaveLength(2);
+    await host.cleanup();
+  });
+});
@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import { MockMCPHost, ProgressParams } from '../src';
+
+/**
+ * Cancellation and progress
+ *
+ * Requests can be aborted or time out, which sends notifications/cancelled to
+ * the server. Passing onProgress adds a progress token that mocks and tools
+ * report against with notifications/progress.
+ */
+
+test.describe('Progress', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    host.registerTool({ name: 'index', inputSchema: { type: 'object' } }, async (_args, { progress }) => {
+      for (let done = 1; done <= 3; done++) {
+        await progress(done, 3, `Indexed ${done} of 3`);
+      }
+      return { content: [{ type: 'text', text: 'indexed' }] };
+    });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('onProgress injects a progress token and receives updates', async () => {
+    const updates: ProgressParams[] = [];
+
+    const response = await host.callTool('index', {}, { onProgress: (p) => updates.push(p) });
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'indexed' }] });
+    const request = host.getInterceptor().findRequestsByMethod('tools/call')[0];
+    const token = (request.params as { _meta: { progressToken: number } })._meta.progressToken;
+    expect(updates).toEqual([
+      { progressToken: token, progress: 1, total: 3, message: 'Indexed 1 of 3' },
+      { progressToken: token, progress: 2, total: 3, message: 'Indexed 2 of 3' },
+      { progressToken: token, progress: 3, total: 3, message: 'Indexed 3 of 3' },
+    ]);
+  });
+
+  test('no progress is sent without a token', async () => {
+    await host.callTool('index');
+
+    expect(host.getInterceptor().findNotificationsByMethod('notifications/progress')).toHaveLength(0);
+  });
+
+  test('mocks can stream progress before resolving', async () => {
+    host.getInterceptor().mockResponse('resources/read', async (req, { progress }) => {
+      await progress(50);
+      await progress(100);
+      return { jsonrpc: '2.0', id: req.id, result: { contents: [] } };
+    });
+
+    const seen: number[] = [];
+    await host.sendRequest('resources/read', { uri: 'file:///big.bin' }, { onProgress: (p) => seen.push(p.progress) });
+
+    expect(seen).toEqual([50, 100]);
+  });
+});
+
+test.describe('Cancellation', () => {
+  let host: MockMCPHost;
+  let handlerSignal: AbortSignal | undefined;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    handlerSignal = undefined;
+    host.registerTool({ name: 'slow', inputSchema: { type: 'object' } }, (_args, { signal }) => {
+      handlerSignal = signal;
+      return new Promise(() => {});
+    });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('aborting sends notifications/cancelled and rejects', async () => {
+    const controller = new AbortController();
+    const call = host.sendRequest('tools/call', { name: 'slow', arguments: {} }, { signal: controller.signal });
+
+    controller.abort('user pressed stop');
+
+    await expect(call).rejects.toThrow('Request tools/call cancelled: user pressed stop');
+    const cancelled = host.getInterceptor().findNotificationsByMethod('notifications/cancelled', 'outgoing');
+    expect(cancelled).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1, reason: 'user pressed stop' } },
+    ]);
+    expect(handlerSignal?.aborted).toBe(true);
+  });
+
+  test('an already aborted signal sends nothing', async () => {
+    const call = host.sendRequest('tools/list', undefined, { signal: AbortSignal.abort('too late') });
+
+    await expect(call).rejects.toThrow(/cancelled: too late/);
+    expect(host.getRecordedMessages()).toHaveLength(0);
+  });
+
+  test('callTool cancels each timed-out attempt before retrying', async () => {
+    await expect(host.callTool('slow', {}, { timeout: 50, retries: 1 })).rejects.toThrow(
+      'Tool call failed after 2 attempts: Request tools/call cancelled: timed out after 50ms'
+    );
+
+    const cancelled = host.getInterceptor().findNotificationsByMethod('notifications/cancelled');
+    expect(cancelled.map(n => (n.params as { requestId: number }).requestId)).toEqual([1, 2]);
+  });
+
+  test('callTool does not retry after an abort', async () => {
+    const controller = new AbortController();
+    const call = host.callTool('slow', {}, { signal: controller.signal, retries: 3 });
+
+    controller.abort();
+
+    await expect(call).rejects.toThrow(/cancelled/);
+    expect(host.getInterceptor().findRequestsByMethod('tools/call')).toHaveLength(1);
+  });
+});
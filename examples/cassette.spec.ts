@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockMCPHost, StdioTransport, Cassette, JSONRPCRequest } from '../src';
+
+/**
+ * Record and replay cassettes
+ *
+ * Traffic against a real server is recorded to a JSON cassette once, then
+ * replayed offline: requests are answered from the cassette by method and
+ * params.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+test.describe('Cassettes', () => {
+  let dir: string;
+  let file: string;
+
+  test.beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-cassettes-'));
+    file = path.join(dir, 'nested', 'stdio-server.json');
+
+    // Record a session against the real server
+    const host = new MockMCPHost({
+      transport: new StdioTransport({ command: process.execPath, args: [SERVER] }),
+    });
+    await host.getInterceptor().insertCassette(file, { mode: 'record' });
+    await host.initialize();
+    await host.listTools();
+    await host.callTool('add', { a: 1, b: 2 });
+    await host.callTool('echo', { text: 'first' }, { onProgress: () => {} });
+    await host.getInterceptor().ejectCassette();
+    await host.cleanup();
+  });
+
+  test.afterAll(async () => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('records requests and responses with normalized ids', async () => {
+    const cassette = JSON.parse(fs.readFileSync(file, 'utf-8')) as Cassette;
+
+    expect(cassette.version).toBe(1);
+    expect(cassette.interactions.map(i => [i.request.id, i.request.method, i.response.id])).toEqual([
+      [1, 'initialize', 1],
+      [2, 'tools/list', 2],
+      [3, 'tools/call', 3],
+      [4, 'tools/call', 4],
+    ]);
+    // Progress tokens change with every run and are not recorded
+    expect(cassette.interactions[3].request.params).toEqual({ name: 'echo', arguments: { text: 'first' } });
+  });
+
+  test('replays the session offline', async () => {
+    const host = new MockMCPHost();
+    await host.getInterceptor().insertCassette(file, { mode: 'replay', strict: true });
+
+    const init = await host.initialize();
+    const tools = await host.listTools();
+    const sum = await host.callTool('add', { a: 1, b: 2 });
+
+    expect((init.result as { serverInfo: { name: string } }).serverInfo.name).not.toBe('mock-mcp-server');
+    expect((tools.result as { tools: unknown[] }).tools).toHaveLength(3);
+    expect(sum).toEqual({ jsonrpc: '2.0', id: 3, result: { content: [{ type: 'text', text: '3' }] } });
+    await host.cleanup();
+  });
+
+  test('strict replay rejects unrecorded requests', async () => {
+    const host = new MockMCPHost();
+    await host.getInterceptor().insertCassette(file, { mode: 'replay', strict: true });
+
+    await expect(host.sendRequest('tools/call', { name: 'add', arguments: { a: 2, b: 2 } })).rejects.toThrow(
+      'No recorded interaction for tools/call with params {"arguments":{"a":2,"b":2},"name":"add"}'
+    );
+    await host.cleanup();
+  });
+
+  test('lenient replay passes unrecorded requests on', async () => {
+    const host = new MockMCPHost();
+    await host.getInterceptor().insertCassette(file, { mode: 'replay' });
+
+    const ping = await host.sendRequest('ping');
+
+    expect(ping.result).toEqual({});
+    await host.cleanup();
+  });
+
+  test('mocks added after the cassette take precedence', async () => {
+    const host = new MockMCPHost();
+    const interceptor = host.getInterceptor();
+    await interceptor.insertCassette(file, { mode: 'replay', strict: true });
+    interceptor.mockResponse('tools/call', (req: JSONRPCRequest) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      error: { code: -32603, message: 'overridden' },
+    })).withParams({ name: 'add' });
+
+    expect((await host.sendRequest('tools/call', { name: 'add', arguments: { a: 1, b: 2 } })).error?.message)
+      .toBe('overridden');
+
+    await interceptor.ejectCassette();
+    expect(interceptor.getMocks('initialize')).toHaveLength(1);
+    await host.cleanup();
+  });
+
+  test('only one cassette can be inserted at a time', async () => {
+    const host = new MockMCPHost();
+    await host.getInterceptor().insertCassette(file, { mode: 'replay' });
+
+    await expect(host.getInterceptor().insertCassette(file, { mode: 'replay' })).rejects.toThrow(/already inserted/);
+    await host.cleanup();
+  });
+});
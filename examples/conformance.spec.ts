@@ -0,0 +1,212 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import {
+  StdioTransport,
+  runConformanceSuite,
+  formatConformanceReport,
+  CONFORMANCE_CHECKS,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  MCPTransport,
+  ConformanceReport,
+} from '../src';
+import { main, parseArguments } from '../src/cli';
+
+/**
+ * Server conformance suite
+ *
+ * runConformanceSuite() runs a catalog of protocol checks against any
+ * server reachable through a transport and reports each result with a link
+ * to the specification.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+/**
+ * In-process transport answering with `answer`, for servers with known bugs
+ */
+function fakeServer(answer: (request: JSONRPCRequest) => Record<string, unknown>): MCPTransport {
+  return {
+    request: async (request) => ({ jsonrpc: '2.0', id: request.id, ...answer(request) } as JSONRPCResponse),
+    send: async () => {},
+  };
+}
+
+const initializeResult = (capabilities: Record<string, unknown>) => ({
+  result: {
+    protocolVersion: '2025-06-18',
+    capabilities,
+    serverInfo: { name: 'fake', version: '0.0.1' },
+  },
+});
+
+test.describe('Conformance suite', () => {
+  test('a well-behaved server passes', async () => {
+    const report = await runConformanceSuite(new StdioTransport({ command: process.execPath, args: [SERVER] }));
+
+    expect(report.ok).toBe(true);
+    expect(report.server).toEqual({ name: 'fixture-stdio-server', version: '1.0.0' });
+    expect(report.results.map(r => r.id)).toEqual(CONFORMANCE_CHECKS.map(c => c.id));
+    // The fixture ignores cursors, which the spec only recommends rejecting
+    const warned = report.results.filter(r => r.status === 'warn');
+    expect(warned.map(r => r.id)).toEqual(['pagination.invalid-cursor']);
+    expect(warned[0].specUrl).toMatch(/^https:\/\/modelcontextprotocol\.io\/specification\/.+\/server\/utilities\/pagination/);
+  });
+
+  test('reports each broken requirement', async () => {
+    const report = await runConformanceSuite(fakeServer((request) => {
+      switch (request.method) {
+        case 'initialize':
+          return initializeResult({ tools: {} });
+        case 'ping':
+          return { result: { pong: true } };
+        case 'tools/list':
+          return { result: { tools: [{ name: 'a', inputSchema: { type: 'string' } }, { name: 'a', inputSchema: { type: 'object' } }] } };
+        case 'prompts/list':
+          return { result: { prompts: [] } };
+        default:
+          return { error: { code: -32603, message: 'Internal error' } };
+      }
+    }));
+
+    const status = Object.fromEntries(report.results.map(r => [r.id, r.status]));
+    expect(status).toMatchObject({
+      'lifecycle.initialize': 'pass',
+      ping: 'fail',
+      'capabilities.honesty': 'fail',
+      'errors.unknown-method': 'fail',
+      'errors.unknown-tool': 'warn',
+      'tools.schema': 'fail',
+    });
+    expect(report.ok).toBe(false);
+
+    const messages = Object.fromEntries(report.results.map(r => [r.id, r.message]));
+    expect(messages['capabilities.honesty']).toBe('Server answers prompts/list without advertising prompts');
+    expect(messages['errors.unknown-method']).toBe('An unknown method failed with -32603; expected -32601');
+    expect(messages['tools.schema']).toBe(
+      'Invalid tool definitions: "a" inputSchema must be a JSON Schema of type "object"; "a" is listed twice'
+    );
+  });
+
+  test('skips dependent checks when initialize fails', async () => {
+    const report = await runConformanceSuite(
+      fakeServer(() => ({ error: { code: -32603, message: 'Not today' } })),
+      { only: ['lifecycle.initialize', 'ping', 'tools.schema'] }
+    );
+
+    expect(report.results.map(r => [r.id, r.status])).toEqual([
+      ['lifecycle.initialize', 'fail'],
+      ['ping', 'fail'],
+      ['tools.schema', 'skip'],
+    ]);
+    expect(report.results[0].message).toBe('initialize failed: [-32603] Not today');
+  });
+
+  test('cancels a request the server is still handling', async () => {
+    const cancelled: unknown[] = [];
+    const transport: MCPTransport = {
+      request: (request) => request.method === 'tools/list'
+        ? new Promise<never>(() => {})
+        : fakeServer(() => (request.method === 'initialize' ? initializeResult({ tools: {} }) : { result: {} })).request(request),
+      send: async (message) => {
+        if ((message as { method?: string }).method === 'notifications/cancelled') cancelled.push(message);
+      },
+    };
+
+    const report = await runConformanceSuite(transport, { only: ['lifecycle.initialize', 'cancellation.responsive'] });
+
+    expect(report.results.map(r => r.status)).toEqual(['pass', 'pass']);
+    expect(cancelled).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 2, reason: 'conformance check' } },
+    ]);
+  });
+
+  test('times out a server that never answers initialize', async () => {
+    const report = await runConformanceSuite(
+      { request: () => new Promise<never>(() => {}), send: async () => {} },
+      { only: ['lifecycle.initialize'], timeout: 50 }
+    );
+
+    expect(report.results[0]).toMatchObject({
+      status: 'fail',
+      message: 'Request initialize cancelled: timed out after 50ms',
+    });
+  });
+
+  test('formats a readable report', async () => {
+    const report = await runConformanceSuite(
+      fakeServer((request) => (request.method === 'initialize' ? initializeResult({}) : { result: {} })),
+      { only: ['lifecycle.initialize', 'errors.unknown-method', 'tools.schema'] }
+    );
+
+    expect(formatConformanceReport(report).split('\n')).toEqual([
+      'MCP conformance: fake 0.0.1 (protocol 2025-06-18)',
+      '',
+      '✓ lifecycle.initialize: initialize negotiates a supported protocol version',
+      '✗ errors.unknown-method: Unknown methods are rejected with -32601',
+      '    An unknown method succeeded; expected error -32601',
+      '    https://modelcontextprotocol.io/specification/2025-06-18/basic#responses',
+      '- tools.schema: tools/list advertises valid tool definitions',
+      '    Server does not advertise tools',
+      '',
+      '1 passed, 1 failed, 0 warnings, 1 skipped',
+    ]);
+  });
+});
+
+test.describe('mcp-conformance CLI arguments', () => {
+  test('parses options and keeps the server command intact', () => {
+    expect(parseArguments(['--only', 'ping, tools.schema', '--timeout', '100', 'node', 'server.js', '--json'])).toEqual({
+      target: ['node', 'server.js', '--json'],
+      options: { only: ['ping', 'tools.schema'], timeout: 100 },
+      headers: {},
+      json: false,
+    });
+    expect(parseArguments(['--json', '--header', 'Authorization: Bearer x', 'https://example.com/mcp'])).toMatchObject({
+      target: ['https://example.com/mcp'],
+      headers: { Authorization: 'Bearer x' },
+      json: true,
+    });
+  });
+
+  test('rejects bad usage', () => {
+    expect(() => parseArguments([])).toThrow('Missing server command or URL');
+    expect(() => parseArguments(['--bogus', 'node'])).toThrow('Unknown option --bogus');
+    expect(() => parseArguments(['--timeout', 'soon', 'node'])).toThrow('--timeout must be a positive number');
+  });
+});
+
+test.describe('mcp-conformance CLI', () => {
+  // Runs the CLI in-process and returns its exit code and JSON report
+  async function runCli(argv: string[]) {
+    const output: string[] = [];
+    const log = console.log;
+    console.log = (line: string) => output.push(line);
+    try {
+      const code = await main(['--json', '--timeout', '1000', ...argv]);
+      return { code, report: JSON.parse(output.join('\n')) as ConformanceReport };
+    } finally {
+      console.log = log;
+    }
+  }
+
+  test('fails initialize when the server command cannot be spawned', async () => {
+    test.setTimeout(10_000);
+
+    const { code, report } = await runCli(['definitely-not-a-real-mcp-server']);
+
+    expect(code).toBe(1);
+    expect(report.ok).toBe(false);
+    expect(report.results[0]).toMatchObject({ id: 'lifecycle.initialize', status: 'fail' });
+    expect(report.results[0].message).toMatch(/ENOENT/);
+  });
+
+  test('fails initialize when the server URL is unreachable', async () => {
+    test.setTimeout(10_000);
+
+    const { code, report } = await runCli(['http://127.0.0.1:1/mcp']);
+
+    expect(code).toBe(1);
+    expect(report.results[0]).toMatchObject({ id: 'lifecycle.initialize', status: 'fail' });
+  });
+});
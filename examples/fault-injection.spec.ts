@@ -0,0 +1,162 @@
+import { test, expect } from '@playwright/test';
+import { MockMCPHost, TransportInterceptor, SeededRandom, expectProtocolViolation } from '../src';
+
+/**
+ * Fault injection
+ *
+ * Fault rules on the interceptor delay, drop, replace, corrupt or duplicate
+ * responses so error handling can be tested without a misbehaving server.
+ * All randomness comes from a seeded RNG, so a failing run can be replayed.
+ */
+
+test.describe('Fault injection', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ validateMessages: true });
+    interceptor = host.getInterceptor();
+    host.registerTool({ name: 'echo', inputSchema: { type: 'object' } }, ({ text }) => ({
+      content: [{ type: 'text', text: String(text) }],
+    }));
+    host.registerTool({ name: 'other', inputSchema: { type: 'object' } }, () => ({ content: [] }));
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('a dropped response makes the request time out', async () => {
+    interceptor.injectFault({ tool: 'echo', drop: true });
+
+    await expect(host.callTool('echo', { text: 'hi' }, { timeout: 50, retries: 0 })).rejects.toThrow(
+      /timed out after 50ms/
+    );
+    expect(interceptor.getFaultLog()).toEqual([{ method: 'tools/call', requestId: 1, fault: 'drop' }]);
+    expect(interceptor.getRecordedNotifications().map(n => n.method)).toContain('notifications/cancelled');
+  });
+
+  test('rules only apply to the tool they name', async () => {
+    interceptor.injectFault({ tool: 'echo', drop: true });
+
+    const response = await host.callTool('other', {}, { timeout: 50, retries: 0 });
+
+    expect(response.result).toEqual({ content: [] });
+    expect(interceptor.getFaultLog()).toEqual([]);
+  });
+
+  test('callTool retries through intermittent drops', async () => {
+    interceptor.setFaultSeed(7);
+    interceptor.injectFault({ method: 'tools/call', drop: true, probability: 0.5 });
+
+    const response = await host.callTool('echo', { text: 'hi' }, { timeout: 30, retries: 5 });
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'hi' }] });
+    const drops = interceptor.getFaultLog().length;
+    expect(drops).toBeGreaterThan(0);
+    const calls = interceptor.getRecordedRequests().filter(r => r.method === 'tools/call');
+    expect(calls).toHaveLength(drops + 1);
+  });
+
+  test('jittered latency is reproducible with the same seed', async () => {
+    const delays = async (seed: number) => {
+      const run = new MockMCPHost();
+      run.getInterceptor().setFaultSeed(seed);
+      run.getInterceptor().injectFault({ method: 'ping', latency: { min: 1, max: 20 } });
+      run.getInterceptor().mockResponse('ping', (req) => ({ jsonrpc: '2.0', id: req.id, result: {} }));
+      for (let i = 0; i < 5; i++) {
+        await run.sendRequest('ping');
+      }
+      // cleanup() resets the interceptor, fault log included
+      const log = run.getInterceptor().getFaultLog().map(event => event.detail as number);
+      await run.cleanup();
+      return log;
+    };
+
+    const first = await delays(42);
+
+    expect(first).toHaveLength(5);
+    expect(first.every(ms => ms >= 1 && ms <= 20)).toBe(true);
+    expect(await delays(42)).toEqual(first);
+    expect(await delays(7)).not.toEqual(first);
+  });
+
+  test('injects JSON-RPC errors', async () => {
+    interceptor.injectFault({ method: 'tools/list', error: { code: -32603, message: 'Server overloaded' } });
+
+    const response = await host.listTools();
+
+    expect(response.error).toEqual({ code: -32603, message: 'Server overloaded' });
+    expect(interceptor.getFaultLog()).toEqual([
+      { method: 'tools/list', requestId: 1, fault: 'error', detail: -32603 },
+    ]);
+  });
+
+  test('a truncated payload fails to parse', async () => {
+    interceptor.injectFault({ method: 'tools/list', corrupt: 'truncate' });
+
+    await expect(host.listTools()).rejects.toThrow(/^Malformed response to tools\/list: /);
+  });
+
+  test('a garbled payload carries a value of the wrong type', async () => {
+    interceptor.mockResponse('custom/status', (req) => ({ jsonrpc: '2.0', id: req.id, result: { state: 'ok' } }));
+    interceptor.injectFault({ method: 'custom/status', corrupt: 'garble' });
+
+    const response = await host.sendRequest('custom/status');
+
+    expect(response.result).toEqual({ state: 0 });
+  });
+
+  test('a duplicated response is recorded twice and flagged by validation', async () => {
+    interceptor.injectFault({ method: 'tools/list', duplicate: true });
+
+    await host.listTools();
+
+    expect(interceptor.getRecordedResponses('incoming')).toHaveLength(2);
+    expectProtocolViolation(interceptor, 'jsonrpc.duplicate-response');
+  });
+
+  test('faults apply to each request in a batch', async () => {
+    interceptor.injectFault({ tool: 'echo', drop: true });
+    interceptor.injectFault({ method: 'tools/list', error: { code: -32603, message: 'Server overloaded' } });
+
+    const responses = await host.sendBatch([
+      { method: 'tools/call', params: { name: 'echo', arguments: { text: 'hi' } } },
+      { method: 'tools/list' },
+      { method: 'tools/call', params: { name: 'other', arguments: {} } },
+    ]);
+
+    // The dropped response is missing from the batch
+    expect(responses.map(r => r.id).sort()).toEqual([2, 3]);
+    expect(responses.find(r => r.id === 2)?.error).toEqual({ code: -32603, message: 'Server overloaded' });
+    expect(interceptor.getFaultLog().sort((a, b) => Number(a.requestId) - Number(b.requestId))).toEqual([
+      { method: 'tools/call', requestId: 1, fault: 'drop' },
+      { method: 'tools/list', requestId: 2, fault: 'error', detail: -32603 },
+    ]);
+  });
+
+  test('clearFaults and reset remove the rules', async () => {
+    interceptor.injectFault({ method: 'tools/list', error: { code: -32603, message: 'down' } });
+    interceptor.clearFaults();
+    expect((await host.listTools()).error).toBeUndefined();
+
+    interceptor.injectFault({ method: 'tools/list', error: { code: -32603, message: 'down' } });
+    interceptor.reset();
+    interceptor.mockResponse('tools/list', (req) => ({ jsonrpc: '2.0', id: req.id, result: { tools: [] } }));
+    expect((await host.listTools()).error).toBeUndefined();
+    expect(interceptor.getFaultLog()).toEqual([]);
+  });
+});
+
+test.describe('SeededRandom', () => {
+  test('the same seed yields the same sequence', () => {
+    const a = new SeededRandom(123);
+    const b = new SeededRandom(123);
+
+    const sequence = Array.from({ length: 10 }, () => a.int(0, 100));
+
+    expect(Array.from({ length: 10 }, () => b.int(0, 100))).toEqual(sequence);
+    expect(sequence.every(n => Number.isInteger(n) && n >= 0 && n <= 100)).toBe(true);
+    expect(new SeededRandom(124).next()).not.toBe(new SeededRandom(123).next());
+  });
+});
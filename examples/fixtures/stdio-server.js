@@ -0,0 +1,133 @@
+/**
+ * Minimal MCP server speaking newline-delimited JSON-RPC over stdio.
+ *
+ * Used by the transport tests as a stand-in for a real server process.
+ * It has no dependencies so it runs anywhere Node does.
+ */
+
+const readline = require('readline');
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the given text back',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string' }, delay: { type: 'number' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+  },
+  {
+    name: 'delete_file',
+    description: 'Delete a file after asking the user to confirm',
+    inputSchema: {
+      type: 'object',
+      properties: { path: { type: 'string' } },
+      required: ['path'],
+    },
+  },
+];
+
+// Requests this server sent to the client, by id, awaiting a response
+const pendingClientRequests = new Map();
+let serverRequestId = 0;
+
+function send(message) {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function requestClient(method, params) {
+  const id = `server-${++serverRequestId}`;
+  send({ jsonrpc: '2.0', id, method, params });
+  return new Promise((resolve) => pendingClientRequests.set(id, resolve));
+}
+
+async function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      if (args.delay) await new Promise((resolve) => setTimeout(resolve, args.delay));
+      return { content: [{ type: 'text', text: String(args.text) }] };
+    case 'add':
+      return { content: [{ type: 'text', text: String(args.a + args.b) }] };
+    case 'delete_file': {
+      const answer = await requestClient('elicitation/create', {
+        message: `Delete ${args.path}?`,
+        requestedSchema: { type: 'object', properties: { confirm: { type: 'boolean' } }, required: ['confirm'] },
+      });
+      const confirmed = answer.result && answer.result.action === 'accept' && answer.result.content.confirm;
+      return { content: [{ type: 'text', text: confirmed ? `Deleted ${args.path}` : 'Cancelled' }] };
+    }
+    default:
+      return null;
+  }
+}
+
+async function handle(message, out = send) {
+  // Responses to requests this server made
+  if (message.method === undefined && pendingClientRequests.has(message.id)) {
+    const resolve = pendingClientRequests.get(message.id);
+    pendingClientRequests.delete(message.id);
+    resolve(message);
+    return;
+  }
+
+  // Notifications need no reply
+  if (message.id === undefined) {
+    return;
+  }
+
+  const reply = (result) => out({ jsonrpc: '2.0', id: message.id, result });
+  const fail = (code, text) => out({ jsonrpc: '2.0', id: message.id, error: { code, message: text } });
+  const params = message.params || {};
+
+  switch (message.method) {
+    case 'initialize':
+      return reply({
+        protocolVersion: params.protocolVersion || '2024-11-05',
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: 'fixture-stdio-server', version: '1.0.0' },
+      });
+    case 'ping':
+      return reply({});
+    case 'tools/list':
+      return reply({ tools });
+    case 'tools/call': {
+      const result = await callTool(params.name, params.arguments || {});
+      return result ? reply(result) : fail(-32602, `Unknown tool: ${params.name}`);
+    }
+    default:
+      return fail(-32601, `Method not found: ${message.method}`);
+  }
+}
+
+const lines = readline.createInterface({ input: process.stdin });
+lines.on('line', (line) => {
+  if (!line.trim()) return;
+  let parsed;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    return;
+  }
+  if (!Array.isArray(parsed)) {
+    handle(parsed);
+    return;
+  }
+
+  // Batch: answer every element, then reply with one array in completion order
+  const responses = [];
+  Promise.all(parsed.map((message) => handle(message, (response) => responses.push(response)))).then(() => {
+    if (responses.length > 0) send(responses);
+  });
+});
+lines.on('close', () => process.exit(0));
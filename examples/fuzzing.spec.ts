@@ -0,0 +1,264 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  SeededRandom,
+  fuzzTool,
+  validateSchema,
+  expectNoProtocolViolations,
+  generateValue,
+  generateBoundaryValue,
+  generateInvalidValue,
+  JSONSchema,
+  JSONRPCRequest,
+} from '../src';
+
+/**
+ * Schema-driven fuzzing
+ *
+ * fuzzTool() calls a tool with valid, boundary and invalid arguments
+ * generated from its inputSchema, and reports crashes, hangs, malformed
+ * responses and invalid arguments the tool accepted. Failures are shrunk to
+ * a minimal case and carry a seed that replays them.
+ */
+
+const SEARCH_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1, maxLength: 20 },
+    limit: { type: 'integer', minimum: 1, maximum: 10 },
+    tags: { type: 'array', items: { type: 'string', enum: ['news', 'docs'] }, uniqueItems: true },
+  },
+  required: ['query'],
+  additionalProperties: false,
+};
+
+test.describe('Fuzzing tools', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('a tool that validates its arguments passes', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, (args) => {
+      const errors = validateSchema(SEARCH_SCHEMA, args);
+      return errors.length > 0
+        ? { content: [{ type: 'text', text: errors[0].message }], isError: true }
+        : { content: [{ type: 'text', text: 'found' }] };
+    });
+
+    const report = await fuzzTool(host, 'search', { runs: 50, seed: 1 });
+
+    expect(report).toEqual({ tool: 'search', seed: 1, runs: 50, failures: [], ok: true });
+    // The invalid arguments sent are not violations of the session
+    expectNoProtocolViolations(host.getInterceptor());
+  });
+
+  test('reports invalid arguments the tool accepted', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ content: [] }));
+
+    const report = await fuzzTool(host, 'search', { runs: 50, seed: 1 });
+
+    expect(report.ok).toBe(false);
+    expect(report.failures.length).toBeGreaterThan(0);
+    for (const failure of report.failures) {
+      expect(failure.kind).toBe('accepted-invalid');
+      expect(failure.input).toBe('invalid');
+      expect(validateSchema(SEARCH_SCHEMA, failure.arguments)).not.toEqual([]);
+      expect(validateSchema(SEARCH_SCHEMA, failure.minimal)).not.toEqual([]);
+    }
+  });
+
+  test('shrinks a crash to a minimal reproduction', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ content: [] }));
+    host.getInterceptor().mockResponse('tools/call', (request: JSONRPCRequest) => {
+      const { limit } = (request.params as { arguments: { limit?: unknown } }).arguments;
+      if (typeof limit === 'number' && limit > 5) {
+        return { jsonrpc: '2.0', id: request.id, error: { code: -32603, message: 'limit too large' } };
+      }
+      return undefined;
+    }, { params: { name: 'search' } });
+
+    const report = await fuzzTool(host, 'search', { runs: 50, seed: 3 });
+    const crashes = report.failures.filter(f => f.kind === 'crash');
+
+    expect(crashes).toHaveLength(1);
+    expect(crashes[0].message).toBe('Internal error: limit too large');
+    expect(crashes[0].minimal).toEqual({ limit: 6 });
+  });
+
+  test('a failure replays from its seed', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ content: [] }));
+    const [failure] = (await fuzzTool(host, 'search', { runs: 50, seed: 1 })).failures;
+
+    const replay = await fuzzTool(host, 'search', { replay: failure.seed });
+
+    expect(replay.runs).toBe(1);
+    expect(replay.failures).toEqual([failure]);
+  });
+
+  test('the same seed gives the same report', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ content: [] }));
+
+    const first = await fuzzTool(host, 'search', { runs: 30, seed: 99 });
+    const second = await fuzzTool(host, 'search', { runs: 30, seed: 99 });
+
+    expect(second).toEqual(first);
+  });
+
+  test('reports results without a content array', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ text: 'found' } as never));
+
+    const report = await fuzzTool(host, 'search', { runs: 10, seed: 1 });
+
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0].kind).toBe('malformed-result');
+  });
+
+  test('reports result responses that break JSON-RPC as malformed results', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ content: [] }));
+    host.getInterceptor().mockResponse('tools/call', (request: JSONRPCRequest) => ({
+      jsonrpc: '2.0',
+      id: request.id,
+      result: 'found' as never,
+    }));
+
+    const report = await fuzzTool(host, 'search', { runs: 10, seed: 1 });
+
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0].kind).toBe('malformed-result');
+  });
+
+  test('handles patterns that are only valid without the u flag', async () => {
+    const schema = { type: 'object', properties: { handle: { type: 'string', pattern: '^[\\w\\@]+$' } } };
+    host.registerTool({ name: 'mention', inputSchema: schema }, (args) =>
+      validateSchema(schema, args).length > 0
+        ? { content: [{ type: 'text', text: 'invalid' }], isError: true }
+        : { content: [{ type: 'text', text: 'ok' }] }
+    );
+
+    const report = await fuzzTool(host, 'mention', { runs: 30, seed: 1 });
+
+    expect(report.ok).toBe(true);
+  });
+
+  test('reports error responses that break JSON-RPC', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, () => ({ content: [] }));
+    host.getInterceptor().mockResponse('tools/call', (request: JSONRPCRequest) => ({
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: 'bad', message: 'invalid' } as never,
+    }));
+
+    const report = await fuzzTool(host, 'search', { runs: 10, seed: 1 });
+
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0].kind).toBe('malformed-error');
+  });
+
+  test('reports calls that never answer', async () => {
+    host.registerTool({ name: 'search', inputSchema: SEARCH_SCHEMA }, (_args, { signal }) =>
+      new Promise(resolve => signal.addEventListener('abort', () => resolve({ content: [] })))
+    );
+
+    const report = await fuzzTool(host, 'search', { runs: 3, seed: 1, timeout: 20 });
+
+    expect(report.runs).toBe(3);
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0]).toMatchObject({ kind: 'hang', message: 'No response within 20ms' });
+  });
+
+  test('stops when the connection is lost', async () => {
+    const server = new MockMCPHost({
+      transport: {
+        request: async (request) => {
+          if (request.method === 'tools/list') {
+            return { jsonrpc: '2.0', id: request.id, result: { tools: [{ name: 'search', inputSchema: SEARCH_SCHEMA }] } };
+          }
+          throw new Error('MCP server exited (code 1)');
+        },
+        send: async () => {},
+      },
+    });
+
+    const report = await fuzzTool(server, 'search', { runs: 10, seed: 1 });
+    await server.cleanup();
+
+    expect(report.runs).toBe(1);
+    expect(report.failures).toMatchObject([{ kind: 'crash', message: 'Connection failed: MCP server exited (code 1)' }]);
+  });
+
+  test('rejects tools that are not listed', async () => {
+    await expect(fuzzTool(host, 'missing')).rejects.toThrow('Tool "missing" is not listed by tools/list');
+  });
+});
+
+test.describe('Schema generators', () => {
+  const schemas: JSONSchema[] = [
+    SEARCH_SCHEMA,
+    { type: 'string', format: 'email' },
+    { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+    { type: 'array', items: { type: 'integer' }, minItems: 2, maxItems: 4 },
+    {
+      type: 'object',
+      properties: { shape: { $ref: '#/$defs/shape' } },
+      required: ['shape'],
+      $defs: { shape: { oneOf: [{ const: 'circle' }, { type: 'object', properties: { sides: { type: 'integer', minimum: 3 } }, required: ['sides'] }] } },
+    },
+  ];
+
+  test('generated values satisfy the schema', () => {
+    for (const schema of schemas) {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(validateSchema(schema, generateValue(schema, new SeededRandom(seed)))).toEqual([]);
+        expect(validateSchema(schema, generateBoundaryValue(schema, new SeededRandom(seed)))).toEqual([]);
+      }
+    }
+  });
+
+  test('invalid values violate the schema', () => {
+    for (const schema of schemas) {
+      for (let seed = 0; seed < 20; seed++) {
+        expect(validateSchema(schema, generateInvalidValue(schema, new SeededRandom(seed)))).not.toEqual([]);
+      }
+    }
+  });
+
+  test('required properties named like Object.prototype members are generated', () => {
+    const schema = { type: 'object', required: ['constructor', 'toString'] };
+
+    for (let seed = 0; seed < 5; seed++) {
+      expect(validateSchema(schema, generateValue(schema, new SeededRandom(seed)))).toEqual([]);
+    }
+  });
+
+  test('recursive schemas end in the branch without a reference', () => {
+    const list: JSONSchema = {
+      type: 'object',
+      properties: { value: { type: 'integer' }, next: { anyOf: [{ $ref: '#' }, { type: 'null' }] } },
+      required: ['value', 'next'],
+    };
+
+    for (let seed = 0; seed < 20; seed++) {
+      expect(validateSchema(list, generateValue(list, new SeededRandom(seed)))).toEqual([]);
+      expect(validateSchema(list, generateBoundaryValue(list, new SeededRandom(seed)))).toEqual([]);
+    }
+  });
+
+  test('schemas that only allow infinite values are reported', () => {
+    const endless: JSONSchema = { type: 'object', properties: { next: { $ref: '#' } }, required: ['next'] };
+
+    expect(() => generateValue(endless, new SeededRandom(1))).toThrow(
+      'Cannot generate a finite value: the schema still requires nested values 64 levels deep'
+    );
+    expect(() => generateValue({ anyOf: [{ $ref: '#' }] }, new SeededRandom(1))).toThrow(/Cannot generate a finite value/);
+  });
+
+  test('a schema that accepts anything has no invalid value', () => {
+    expect(generateInvalidValue({}, new SeededRandom(1))).toBeUndefined();
+  });
+});
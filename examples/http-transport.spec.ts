@@ -0,0 +1,299 @@
+import { test, expect } from '@playwright/test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MockMCPHost,
+  StreamableHTTPTransport,
+  JSONRPCMessage,
+  expectToolCall,
+  expectMessageSequence,
+} from '../src';
+
+/**
+ * StreamableHTTPTransport — talking to a Streamable HTTP server
+ *
+ * An in-process HTTP server plays the MCP server. It answers some requests
+ * with JSON and others with SSE, drops one stream mid-flight to exercise
+ * Last-Event-ID resumption, and records session handling.
+ */
+
+interface ServerLog {
+  sessionIds: Array<string | undefined>;
+  protocolVersions: Array<string | undefined>;
+  lastEventIds: string[];
+  deleted: string[];
+  /** Event streams opened in reply to notifications and still open */
+  openStreams: number;
+}
+
+function startServer(): Promise<{ url: string; log: ServerLog; close: () => Promise<void> }> {
+  const SESSION = 'session-abc';
+  const log: ServerLog = { sessionIds: [], protocolVersions: [], lastEventIds: [], deleted: [], openStreams: 0 };
+  // Events held back from a dropped stream, replayed on resumption
+  const replay = new Map<string, string>();
+
+  const sse = (res: http.ServerResponse) =>
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+  const event = (id: string, message: unknown) => `id: ${id}\ndata: ${JSON.stringify(message)}\n\n`;
+
+  const server = http.createServer((req, res) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (req.method === 'DELETE') {
+      log.deleted.push(sessionId ?? '');
+      res.writeHead(200).end();
+      return;
+    }
+
+    if (req.method === 'GET') {
+      const lastEventId = req.headers['last-event-id'] as string | undefined;
+      if (!lastEventId || !replay.has(lastEventId)) {
+        res.writeHead(405).end();
+        return;
+      }
+      log.lastEventIds.push(lastEventId);
+      sse(res);
+      res.end(replay.get(lastEventId));
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const message = JSON.parse(body);
+      log.sessionIds.push(sessionId);
+      log.protocolVersions.push(req.headers['mcp-protocol-version'] as string | undefined);
+
+      if (message.method === 'initialize') {
+        res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': SESSION });
+        res.end(JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: {
+            protocolVersion: '2025-03-26',
+            capabilities: { tools: {} },
+            serverInfo: { name: 'fixture-http-server', version: '1.0.0' },
+          },
+        }));
+        return;
+      }
+
+      if (sessionId !== SESSION) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      if (Array.isArray(message)) {
+        // Batch: answer the requests in reverse to exercise out-of-order responses
+        const responses = message
+          .filter((item) => item.id !== undefined)
+          .reverse()
+          .map((item) => ({ jsonrpc: '2.0', id: item.id, result: { echoed: item.method } }));
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(responses));
+        return;
+      }
+
+      if (message.id === undefined && message.method === 'notifications/stream') {
+        // Answer with an event stream that stays open until the client leaves
+        log.openStreams++;
+        res.on('close', () => log.openStreams--);
+        sse(res);
+        res.write(': open\n\n');
+        return;
+      }
+
+      if (message.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+
+      const text = message.params?.arguments?.text;
+      const result = { content: [{ type: 'text', text: `echo: ${text}` }] };
+
+      switch (message.method) {
+        case 'tools/list':
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: { tools: [{ name: 'echo' }] } }));
+          return;
+        case 'tools/call':
+          sse(res);
+          res.write(event('1', {
+            jsonrpc: '2.0',
+            method: 'notifications/message',
+            params: { level: 'info', data: `calling with ${text}` },
+          }));
+          if (text === 'crlf') {
+            // CRLF line endings with the data split over two lines, written so
+            // that a CRLF straddles two chunks
+            const json = JSON.stringify({ jsonrpc: '2.0', id: message.id, result });
+            const half = json.indexOf(',"result"');
+            res.write(`id: 2\r\ndata: ${json.slice(0, half)}\r`);
+            setTimeout(() => res.end(`\ndata: ${json.slice(half)}\r\n\r\n`), 20);
+            return;
+          }
+          if (text === 'cr') {
+            // Bare-CR line endings, the event's last CR ending the chunk; the
+            // stream then stays open
+            res.write(`id: 2\rdata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\r\r`);
+            return;
+          }
+          if (text === 'drop') {
+            // Close the stream before the response; the client must resume
+            replay.set('1', event('2', { jsonrpc: '2.0', id: message.id, result }));
+            res.end();
+            return;
+          }
+          res.end(event('2', { jsonrpc: '2.0', id: message.id, result }));
+          return;
+        default:
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: -32601, message: `Method not found: ${message.method}` },
+          }));
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/mcp`,
+        log,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+test.describe('StreamableHTTPTransport with MockMCPHost', () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let transport: StreamableHTTPTransport;
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    server = await startServer();
+    transport = new StreamableHTTPTransport({ url: server.url });
+    host = new MockMCPHost({ transport });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+    await server.close();
+  });
+
+  test('captures the session id and sends it on later requests', async () => {
+    await host.initialize();
+    expect(transport.getSessionId()).toBe('session-abc');
+
+    await host.listTools();
+
+    // initialize, notifications/initialized, tools/list
+    expect(server.log.sessionIds).toEqual([undefined, 'session-abc', 'session-abc']);
+    expect(server.log.protocolVersions).toEqual([undefined, '2025-03-26', '2025-03-26']);
+  });
+
+  test('reads responses from JSON and SSE bodies', async () => {
+    await host.initialize();
+
+    const list = await host.listTools();
+    expect(list.result).toEqual({ tools: [{ name: 'echo' }] });
+
+    const call = await host.callTool('echo', { text: 'hi' });
+    expect(call.result).toEqual({ content: [{ type: 'text', text: 'echo: hi' }] });
+
+    expectMessageSequence(host.getInterceptor(), ['initialize', 'tools/list', 'tools/call']);
+    expectToolCall(host.getInterceptor(), 'echo', { text: 'hi' });
+  });
+
+  test('delivers notifications from the SSE stream to onMessage handlers', async () => {
+    const received: JSONRPCMessage[] = [];
+    transport.onMessage((message) => received.push(message));
+
+    await host.initialize();
+    await host.callTool('echo', { text: 'hi' });
+
+    expect(received).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'calling with hi' } },
+    ]);
+  });
+
+  test('resumes a dropped stream with Last-Event-ID', async () => {
+    await host.initialize();
+
+    const call = await host.callTool('echo', { text: 'drop' });
+
+    expect(call.result).toEqual({ content: [{ type: 'text', text: 'echo: drop' }] });
+    expect(server.log.lastEventIds).toEqual(['1']);
+  });
+
+  test('keeps a CRLF split across chunks as one line ending', async () => {
+    await host.initialize();
+
+    const call = await host.callTool('echo', { text: 'crlf' });
+
+    expect(call.result).toEqual({ content: [{ type: 'text', text: 'echo: crlf' }] });
+  });
+
+  test('dispatches an event ending in a CR at a chunk boundary without waiting for more data', async () => {
+    await host.initialize();
+
+    const call = await host.callTool('echo', { text: 'cr' }, { timeout: 1000, retries: 0 });
+
+    expect(call.result).toEqual({ content: [{ type: 'text', text: 'echo: cr' }] });
+  });
+
+  test('close aborts an event stream opened by a notification', async () => {
+    await host.initialize();
+    await transport.send({ jsonrpc: '2.0', method: 'notifications/stream' });
+    await expect.poll(() => server.log.openStreams).toBe(1);
+
+    await host.cleanup();
+
+    await expect.poll(() => server.log.openStreams).toBe(0);
+  });
+
+  test('terminates the session with DELETE on cleanup', async () => {
+    await host.initialize();
+    await host.cleanup();
+
+    expect(server.log.deleted).toEqual(['session-abc']);
+    expect(transport.getSessionId()).toBeNull();
+  });
+
+  test('reports an expired session', async () => {
+    const stale = new StreamableHTTPTransport({ url: server.url });
+    const staleHost = new MockMCPHost({ transport: stale });
+    await staleHost.initialize();
+
+    // Simulate the server forgetting the session
+    (stale as unknown as { sessionId: string }).sessionId = 'unknown-session';
+
+    await expect(staleHost.listTools()).rejects.toThrow(/session expired/);
+    await staleHost.cleanup();
+  });
+
+  test('sends a batch in one POST and collects the array response', async () => {
+    await host.initialize();
+
+    const responses = await transport.requestBatch([
+      { jsonrpc: '2.0', id: 10, method: 'tools/list' },
+      { jsonrpc: '2.0', method: 'notifications/roots/list_changed' },
+      { jsonrpc: '2.0', id: 11, method: 'ping' },
+    ]);
+
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', id: 11, result: { echoed: 'ping' } },
+      { jsonrpc: '2.0', id: 10, result: { echoed: 'tools/list' } },
+    ]);
+  });
+
+  test('reports a missing standalone event stream', async () => {
+    await host.initialize();
+
+    await expect(transport.openEventStream()).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  expectNoProtocolViolations,
+  expectProtocolViolation,
+} from '../src';
+
+/**
+ * Strict lifecycle mode
+ *
+ * With `strict: true` the host enforces the MCP handshake and the negotiated
+ * capabilities, recording every breach on the interceptor.
+ */
+
+test.describe('Lifecycle state', () => {
+  test('moves through the handshake phases', async () => {
+    const host = new MockMCPHost();
+    expect(host.getLifecycleState()).toBe('uninitialized');
+
+    await host.sendRequest('initialize', { protocolVersion: '2025-06-18', capabilities: {} });
+    expect(host.getLifecycleState()).toBe('initialized');
+    expect(host.isInitialized()).toBe(true);
+
+    await host.sendNotification('notifications/initialized');
+    expect(host.getLifecycleState()).toBe('ready');
+
+    await host.cleanup();
+    expect(host.getLifecycleState()).toBe('uninitialized');
+  });
+
+  test('non-strict hosts serve requests before initialize', async () => {
+    const host = new MockMCPHost();
+
+    const response = await host.listTools();
+
+    expect(response.error).toBeUndefined();
+    expectNoProtocolViolations(host.getInterceptor());
+  });
+});
+
+test.describe('Strict mode', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ strict: true });
+    host.setCapabilities({ tools: {} });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('a correct handshake records no violations', async () => {
+    await host.initialize();
+    await host.listTools();
+
+    expect(host.getLifecycleState()).toBe('ready');
+    expectNoProtocolViolations(host.getInterceptor());
+  });
+
+  test('rejects requests before initialize, except ping', async () => {
+    const ping = await host.sendRequest('ping');
+    const list = await host.listTools();
+
+    expect(ping.error).toBeUndefined();
+    expect(list.error).toEqual({ code: -32600, message: 'Server not initialized' });
+    const violation = expectProtocolViolation(host.getInterceptor(), 'lifecycle.not-initialized');
+    expect(violation.message).toMatchObject({ method: 'tools/list' });
+  });
+
+  test('flags requests sent before notifications/initialized', async () => {
+    await host.sendRequest('initialize', { protocolVersion: '2025-06-18', capabilities: {} });
+
+    const response = await host.listTools();
+
+    expect(response.error).toBeUndefined();
+    expectProtocolViolation(host.getInterceptor(), 'lifecycle.initialized-notification-missing');
+  });
+
+  test('rejects a second initialize', async () => {
+    await host.initialize();
+
+    const response = await host.sendRequest('initialize', { protocolVersion: '2025-06-18', capabilities: {} });
+
+    expect(response.error?.code).toBe(-32600);
+    expectProtocolViolation(host.getInterceptor(), 'lifecycle.duplicate-initialize');
+  });
+
+  test('rejects methods whose server capability was not advertised', async () => {
+    await host.initialize();
+
+    const prompts = await host.listPrompts();
+    const subscribe = await host.sendRequest('resources/subscribe', { uri: 'file:///a.txt' });
+
+    expect(prompts.error?.code).toBe(-32601);
+    expect(subscribe.error?.code).toBe(-32601);
+    expect(host.getInterceptor().getProtocolViolations('capability.')).toHaveLength(2);
+  });
+
+  test('refuses server requests for client capabilities never advertised', async () => {
+    await host.initialize();
+
+    // Registered after initialize, so sampling was not advertised
+    host.onSampling(() => ({ role: 'assistant', content: { type: 'text', text: 'hi' }, model: 'mock' }));
+    const response = await host.receiveServerRequest('sampling/createMessage', { messages: [], maxTokens: 10 });
+
+    expect(response.error?.code).toBe(-32601);
+    expectProtocolViolation(host.getInterceptor(), 'capability.not-advertised');
+  });
+
+  test('assertions report recorded violations', async () => {
+    await host.listTools();
+
+    expect(() => expectNoProtocolViolations(host.getInterceptor())).toThrow(/lifecycle\.not-initialized/);
+    expect(() => expectProtocolViolation(host.getInterceptor(), 'lifecycle.duplicate-initialize')).toThrow(
+      /Recorded violations: \[lifecycle\.not-initialized\]/
+    );
+  });
+});
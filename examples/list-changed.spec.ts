@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { MockMCPHost, expectNoProtocolViolations } from '../src';
+
+/**
+ * list_changed notifications
+ *
+ * Once the client has sent notifications/initialized, changing the tool,
+ * resource or prompt registries emits notifications/<kind>/list_changed —
+ * but only for kinds whose capability declares `listChanged`.
+ */
+
+const tool = (name: string) => ({ name, inputSchema: { type: 'object' } });
+
+test.describe('list_changed notifications', () => {
+  test('registry changes notify the client under a listChanged profile', async () => {
+    const host = new MockMCPHost({ hostProfile: 'Claude' });
+    await host.initialize();
+
+    host.registerTool(tool('search'), () => ({ content: [] }));
+    await host.waitForNotification('notifications/tools/list_changed', 100);
+
+    host.registerResourceTemplate('db://{table}', () => null);
+    await host.waitForNotification('notifications/resources/list_changed', 100);
+
+    host.registerPrompt('summarize', {}, () => []);
+    await host.waitForNotification('notifications/prompts/list_changed', 100);
+
+    await host.cleanup();
+  });
+
+  test('unregistering notifies only when something was removed', async () => {
+    const host = new MockMCPHost({ hostProfile: 'Claude' });
+    host.registerTool(tool('search'), () => ({ content: [] }));
+    await host.initialize();
+
+    host.unregisterTool('missing');
+    host.unregisterTool('search');
+    await host.waitForNotification('notifications/tools/list_changed', 100);
+
+    expect(host.getInterceptor().findNotificationsByMethod('notifications/tools/list_changed')).toHaveLength(1);
+    await host.cleanup();
+  });
+
+  test('nothing is sent before initialization', async () => {
+    const host = new MockMCPHost({ hostProfile: 'Claude' });
+
+    host.registerTool(tool('search'), () => ({ content: [] }));
+    await host.initialize();
+
+    expect(host.getInterceptor().getRecordedNotifications('incoming')).toHaveLength(0);
+    await host.cleanup();
+  });
+
+  test('nothing is sent before the client sends notifications/initialized', async () => {
+    const host = new MockMCPHost({ hostProfile: 'Claude', strict: true });
+    await host.sendRequest('initialize', {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1.0.0' },
+    });
+
+    host.registerTool(tool('search'), () => ({ content: [] }));
+    expect(host.getInterceptor().getRecordedNotifications('incoming')).toHaveLength(0);
+
+    await host.sendNotification('notifications/initialized');
+    host.registerTool(tool('fetch'), () => ({ content: [] }));
+    await host.waitForNotification('notifications/tools/list_changed', 100);
+
+    expectNoProtocolViolations(host.getInterceptor());
+    await host.cleanup();
+  });
+
+  test('kinds without listChanged stay silent', async () => {
+    // VS Code declares prompts.listChanged: false
+    const host = new MockMCPHost({ hostProfile: 'VSCode' });
+    await host.initialize();
+
+    host.registerPrompt('summarize', {}, () => []);
+    host.registerTool(tool('search'), () => ({ content: [] }));
+    await host.waitForNotification('notifications/tools/list_changed', 100);
+
+    expect(host.getInterceptor().findNotificationsByMethod('notifications/prompts/list_changed')).toHaveLength(0);
+    await host.cleanup();
+  });
+
+  test('updating an existing resource does not change the list', async () => {
+    const host = new MockMCPHost({ hostProfile: 'Claude' });
+    host.registerResource('file:///notes.md', { text: 'v1' });
+    await host.initialize();
+
+    await host.updateResource('file:///notes.md', { text: 'v2' });
+    await host.updateResource('file:///new.md', { text: 'new' });
+    await host.waitForNotification('notifications/resources/list_changed', 100);
+
+    expect(host.getInterceptor().findNotificationsByMethod('notifications/resources/list_changed')).toHaveLength(1);
+    await host.cleanup();
+  });
+});
@@ -0,0 +1,150 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  TransportInterceptor,
+  expectLog,
+  expectCapability,
+  expectProtocolViolation,
+} from '../src';
+
+/**
+ * Logging
+ *
+ * Servers advertising the `logging` capability send log entries as
+ * notifications/message. The client picks the minimum level with
+ * logging/setLevel. The interceptor captures entries with severity
+ * filtering, and expectLog() asserts on them.
+ */
+
+test.describe('Logging', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ hostProfile: 'Generic' });
+    interceptor = host.getInterceptor();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('host profiles advertise logging', async () => {
+    const response = await host.initialize();
+
+    expectCapability(response, 'logging');
+  });
+
+  test('logging/setLevel sets the minimum level', async () => {
+    const response = await host.setLogLevel('warning');
+
+    expect(response.result).toEqual({});
+    expect(host.getLogLevel()).toBe('warning');
+  });
+
+  test('entries below the level are not sent', async () => {
+    expect(await host.log('debug', 'before any level')).toBe(true);
+    await host.setLogLevel('warning');
+
+    expect(await host.log('info', 'routine')).toBe(false);
+    expect(await host.log('warning', 'degraded')).toBe(true);
+    expect(await host.log('critical', 'down', 'db')).toBe(true);
+
+    expect(interceptor.getLogMessages()).toEqual([
+      { level: 'debug', data: 'before any level' },
+      { level: 'warning', data: 'degraded' },
+      { level: 'critical', logger: 'db', data: 'down' },
+    ]);
+  });
+
+  test('captured entries filter by severity and logger', async () => {
+    await host.log('info', 'started', 'app');
+    await host.log('error', 'query failed', 'db');
+    await host.log('warning', 'slow query', 'db');
+
+    expect(interceptor.getLogMessages({ level: 'warning' }).map(entry => entry.data)).toEqual([
+      'query failed',
+      'slow query',
+    ]);
+    expect(interceptor.getLogMessages({ logger: 'app' }).map(entry => entry.data)).toEqual(['started']);
+    expect(interceptor.getLogMessages({ level: 'error', logger: 'db' }).map(entry => entry.data)).toEqual([
+      'query failed',
+    ]);
+  });
+
+  test('tools log through their context', async () => {
+    host.registerTool({ name: 'search', inputSchema: { type: 'object' } }, async (_args, { log }) => {
+      await log('debug', 'looking up', 'search');
+      await log('warning', { reason: 'index unavailable', fallback: 'scan' }, 'search');
+      return { content: [{ type: 'text', text: 'results from a full scan' }] };
+    });
+    await host.setLogLevel('info');
+
+    await host.callTool('search', { query: 'mcp' });
+
+    expectLog(interceptor, { level: 'warning', logger: 'search', data: { reason: 'index unavailable' } });
+    expect(interceptor.getLogMessages()).toHaveLength(1);
+  });
+
+  test('expectLog matches string data with a RegExp', async () => {
+    await host.log('warning', 'cache miss for key user:42');
+
+    const entry = expectLog(interceptor, { level: 'warning', data: /cache miss/ });
+
+    expect(entry.data).toBe('cache miss for key user:42');
+  });
+
+  test('expectLog lists the entries when none match', async () => {
+    await host.log('info', 'all good', 'health');
+
+    expect(() => expectLog(interceptor, { level: 'warning', logger: 'health' })).toThrow(
+      'Expected a log entry with level "warning", logger "health" but none matched. ' +
+      'Log entries:\n  - [info] health: "all good"'
+    );
+  });
+
+  test('logging/setLevel is rejected without the logging capability', async () => {
+    host.setCapabilities({ tools: {} });
+
+    const response = await host.setLogLevel('info');
+
+    expect(response.error?.code).toBe(-32601);
+  });
+
+  test('nothing is logged without the logging capability', async () => {
+    const strict = new MockMCPHost({ strict: true });
+    strict.setCapabilities({ tools: {} });
+    await strict.initialize();
+
+    expect(await strict.log('error', 'unadvertised')).toBe(false);
+
+    expect(strict.getInterceptor().getLogMessages()).toEqual([]);
+    expectProtocolViolation(strict.getInterceptor(), 'capability.not-advertised');
+    await strict.cleanup();
+  });
+
+  test('unknown levels are rejected', async () => {
+    const response = await host.sendRequest('logging/setLevel', { level: 'verbose' });
+
+    expect(response.error?.code).toBe(-32602);
+    expect(host.getLogLevel()).toBeNull();
+  });
+
+  test('strict mode flags setLevel when the server did not advertise logging', async () => {
+    const strict = new MockMCPHost({ strict: true });
+    await strict.initialize();
+
+    await strict.setLogLevel('info');
+
+    expectProtocolViolation(strict.getInterceptor(), 'capability.not-advertised');
+    await strict.cleanup();
+  });
+
+  test('cleanup forgets the level', async () => {
+    await host.setLogLevel('error');
+
+    await host.cleanup();
+
+    expect(host.getLogLevel()).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MockMCPHost,
+  parseManifest,
+  validateSchema,
+  expectNoSchemaViolations,
+  MCPTool,
+  MCPManifest,
+} from '../src';
+
+/**
+ * Stand-in servers from a manifest
+ *
+ * MockMCPHost.fromManifest() registers every tool, resource and prompt of a
+ * saved tools/list, resources/list and prompts/list capture, answering with
+ * responses synthesized from schemas and mime types. Frontends can be built
+ * against it without running the real backend.
+ */
+
+const MANIFEST = path.join(__dirname, 'fixtures', 'weather-manifest.json');
+const listed = JSON.parse(fs.readFileSync(MANIFEST, 'utf-8'));
+const forecast: MCPTool = listed['tools/list'].tools[0];
+
+test.describe('MockMCPHost.fromManifest', () => {
+  let host: MockMCPHost;
+
+  test.afterEach(async () => {
+    await host?.cleanup();
+  });
+
+  test('registers everything the manifest lists', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+    await host.initialize();
+
+    expect(await host.listAllTools()).toEqual(listed['tools/list'].tools);
+    expect(await host.listAllResources()).toEqual(listed['resources/list'].resources);
+    expect(await host.listAllResourceTemplates()).toEqual(listed['resources/templates/list'].resourceTemplates);
+    expect(await host.listAllPrompts()).toEqual(listed['prompts/list'].prompts);
+  });
+
+  test('advertises the listed capabilities', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+
+    const response = await host.initialize();
+
+    expect((response.result as { capabilities: object }).capabilities).toEqual({
+      tools: {},
+      resources: {},
+      prompts: {},
+    });
+  });
+
+  test('tool results follow the output schema', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+
+    const response = await host.callTool('forecast', { city: 'Oslo' });
+    const result = response.result as { content: Array<{ text: string }>; structuredContent: unknown };
+
+    expect(validateSchema(forecast.outputSchema!, result.structuredContent)).toEqual([]);
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    expectNoSchemaViolations(host.getInterceptor());
+  });
+
+  test('the same arguments get the same result', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+
+    const first = await host.callTool('forecast', { city: 'Oslo', days: 3 });
+    const again = await host.callTool('forecast', { days: 3, city: 'Oslo' });
+    const other = await host.callTool('forecast', { city: 'Lima' });
+
+    expect(again.result).toEqual(first.result);
+    expect(other.result).not.toEqual(first.result);
+  });
+
+  test('tools without an output schema return text', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+
+    const response = await host.callTool('alerts', {});
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Result of alerts' }] });
+  });
+
+  test('resource contents follow the mime type', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+    const read = async (uri: string) =>
+      ((await host.readResource(uri)).result as { contents: Array<Record<string, string>> }).contents[0];
+
+    const widget = await read('ui://weather/widget.html');
+    expect(widget.mimeType).toBe('text/html;profile=mcp-app');
+    expect(widget.text).toContain('<h1>Weather widget</h1>');
+
+    expect(JSON.parse((await read('file:///data/stations.json')).text)).toEqual({
+      uri: 'file:///data/stations.json',
+      name: 'stations',
+    });
+
+    const icon = await read('file:///assets/icon.png');
+    expect(Buffer.from(icon.blob, 'base64').subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  test('resource templates answer for any matching URI', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+
+    const response = await host.readResource('weather://paris/current');
+
+    expect(response.result).toEqual({
+      contents: [{
+        uri: 'weather://paris/current',
+        mimeType: 'application/json',
+        text: JSON.stringify({ uri: 'weather://paris/current', name: 'Current conditions' }),
+      }],
+    });
+  });
+
+  test('prompts repeat their arguments', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST);
+
+    const response = await host.getPrompt('trip-planner', { destination: 'Rome' });
+
+    expect(response.result).toEqual({
+      description: 'Plan a trip around the weather',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Plan a trip around the weather\ndestination: Rome' } }],
+    });
+  });
+
+  test('overrides replace synthesized responses', async () => {
+    host = await MockMCPHost.fromManifest(MANIFEST, {
+      tools: { alerts: ({ region }) => ({ content: [{ type: 'text', text: `No alerts for ${region}` }] }) },
+      resources: { 'ui://weather/widget.html': { text: '<div id="app"></div>' } },
+    });
+
+    expect((await host.callTool('alerts', { region: 'north' })).result).toEqual({
+      content: [{ type: 'text', text: 'No alerts for north' }],
+    });
+    expect((await host.readResource('ui://weather/widget.html')).result).toEqual({
+      contents: [{ uri: 'ui://weather/widget.html', mimeType: 'text/html;profile=mcp-app', text: '<div id="app"></div>' }],
+    });
+    // The listing still comes from the manifest
+    expect(await host.listAllTools()).toEqual(listed['tools/list'].tools);
+  });
+
+  test('rejects overrides for items the manifest does not list', async () => {
+    await expect(MockMCPHost.fromManifest(MANIFEST, { tools: { radar: () => ({ content: [] }) } })).rejects.toThrow(
+      /Override for tool "radar", which manifest .* does not list/
+    );
+  });
+
+  test('a cassette recorded against a server works as a manifest', async () => {
+    const cassette = test.info().outputPath('weather.cassette.json');
+    const server = await MockMCPHost.fromManifest(MANIFEST);
+    await server.getInterceptor().insertCassette(cassette, { mode: 'record' });
+    await server.initialize();
+    await server.listAllTools();
+    await server.listAllPrompts();
+    await server.getInterceptor().ejectCassette();
+    await server.cleanup();
+
+    host = await MockMCPHost.fromManifest(cassette);
+
+    expect(await host.listAllTools()).toEqual(listed['tools/list'].tools);
+    expect(await host.listAllPrompts()).toEqual(listed['prompts/list'].prompts);
+    expect(await host.listAllResources()).toEqual([]);
+  });
+
+  test('rejects files listing nothing', async () => {
+    const empty = test.info().outputPath('empty.json');
+    fs.writeFileSync(empty, '{}');
+
+    await expect(MockMCPHost.fromManifest(empty)).rejects.toThrow(`No tools, resources or prompts in manifest ${empty}`);
+  });
+});
+
+test.describe('parseManifest', () => {
+  test('accepts the list results merged', () => {
+    const manifest: MCPManifest = parseManifest({ tools: [forecast], prompts: [{ name: 'p' }] });
+
+    expect(manifest).toEqual({ tools: [forecast], resources: [], resourceTemplates: [], prompts: [{ name: 'p' }] });
+  });
+
+  test('keeps items listed twice once', () => {
+    const manifest = parseManifest({
+      version: 1,
+      interactions: [
+        { request: { method: 'tools/list' }, response: { result: { tools: [{ name: 'a', inputSchema: {} }] } } },
+        { request: { method: 'tools/list' }, response: { result: { tools: [{ name: 'a', title: 'A', inputSchema: {} }] } } },
+        { request: { method: 'tools/call' }, response: { result: { tools: [{ name: 'ignored' }] } } },
+      ],
+    });
+
+    expect(manifest.tools).toEqual([{ name: 'a', title: 'A', inputSchema: {} }]);
+  });
+});
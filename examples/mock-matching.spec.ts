@@ -0,0 +1,138 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { MockMCPHost, TransportInterceptor, StdioTransport, JSONRPCRequest, matchesPartial } from '../src';
+
+/**
+ * Parameter-aware mocks
+ *
+ * Several mocks can share a method. They are narrowed by params, limited
+ * with once()/times(), ordered by priority, and fall through to the next
+ * mock or the real server when they do not answer.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+const text = (value: string) => (req: JSONRPCRequest) => ({
+  jsonrpc: '2.0' as const,
+  id: req.id,
+  result: { content: [{ type: 'text', text: value }] },
+});
+
+test.describe('Mock matching', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    interceptor = host.getInterceptor();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('mocks for the same method are selected by params', async () => {
+    interceptor.mockResponse('tools/call', text('weather')).withParams({ name: 'weather' });
+    interceptor.mockResponse('tools/call', text('search')).withParams({ name: 'search' });
+
+    expect((await host.callTool('weather')).result).toEqual({ content: [{ type: 'text', text: 'weather' }] });
+    expect((await host.callTool('search')).result).toEqual({ content: [{ type: 'text', text: 'search' }] });
+  });
+
+  test('partial matchers compare nested params', async () => {
+    interceptor.mockResponse('tools/call', text('paris'), {
+      params: { name: 'weather', arguments: { city: 'Paris' } },
+    });
+
+    const paris = await host.callTool('weather', { city: 'Paris', days: 3 });
+    const oslo = await host.sendRequest('tools/call', { name: 'weather', arguments: { city: 'Oslo' } });
+
+    expect(paris.result).toEqual({ content: [{ type: 'text', text: 'paris' }] });
+    // No match falls through to the built-in responder
+    expect(oslo.error?.message).toBe('Unknown tool: weather');
+  });
+
+  test('predicates receive the params and the request', async () => {
+    interceptor.mockResponse('tools/call', text('small'));
+    interceptor.mockResponse('tools/call', text('big')).withParams(
+      (params, request) => request.method === 'tools/call' && (params as { arguments: { n: number } }).arguments.n > 10
+    );
+
+    expect((await host.callTool('count', { n: 50 })).result).toEqual({ content: [{ type: 'text', text: 'big' }] });
+    expect((await host.callTool('count', { n: 5 })).result).toEqual({ content: [{ type: 'text', text: 'small' }] });
+  });
+
+  test('once() and times() limit how often a mock answers', async () => {
+    interceptor.mockResponse('tools/call', text('default'));
+    const flaky = interceptor.mockResponse('tools/call', text('first')).once();
+    interceptor.mockResponse('ping', (req) => ({ jsonrpc: '2.0', id: req.id, result: { n: 2 } })).times(2);
+
+    const first = await host.callTool('anything');
+    const second = await host.callTool('anything');
+
+    expect(first.result).toEqual({ content: [{ type: 'text', text: 'first' }] });
+    expect(second.result).toEqual({ content: [{ type: 'text', text: 'default' }] });
+    expect(flaky.callCount).toBe(1);
+
+    expect((await host.sendRequest('ping')).result).toEqual({ n: 2 });
+    expect((await host.sendRequest('ping')).result).toEqual({ n: 2 });
+    expect((await host.sendRequest('ping')).result).toEqual({});
+  });
+
+  test('higher priority wins over newer mocks', async () => {
+    interceptor.mockResponse('tools/call', text('important'), { priority: 10 });
+    interceptor.mockResponse('tools/call', text('newer'));
+
+    expect((await host.callTool('x')).result).toEqual({ content: [{ type: 'text', text: 'important' }] });
+    expect(interceptor.getMocks('tools/call').map(m => m.priority)).toEqual([10, 0, 0]);
+  });
+
+  test('a handler returning undefined falls through', async () => {
+    const seen: string[] = [];
+    interceptor.mockResponse('tools/call', text('fallback'));
+    const spy = interceptor.mockResponse('tools/call', (req) => {
+      seen.push((req.params as { name: string }).name);
+      return undefined;
+    });
+
+    const response = await host.callTool('spied');
+
+    expect(seen).toEqual(['spied']);
+    expect(spy.callCount).toBe(0);
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'fallback' }] });
+  });
+
+  test('remove() unregisters a mock', async () => {
+    const mock = interceptor.mockResponse('ping', (req) => ({ jsonrpc: '2.0', id: req.id, result: { mocked: true } }));
+    mock.remove();
+
+    expect((await host.sendRequest('ping')).result).toEqual({});
+  });
+});
+
+test.describe('Mock fall-through to a real server', () => {
+  test('unmatched requests reach the transport', async () => {
+    const host = new MockMCPHost({
+      transport: new StdioTransport({ command: process.execPath, args: [SERVER] }),
+    });
+    await host.initialize();
+    host.getInterceptor().mockResponse('tools/call', text('mocked add')).withParams({ name: 'add' }).once();
+
+    const mocked = await host.callTool('add', { a: 1, b: 2 });
+    const real = await host.callTool('add', { a: 1, b: 2 });
+
+    expect(mocked.result).toEqual({ content: [{ type: 'text', text: 'mocked add' }] });
+    expect(real.result).not.toEqual(mocked.result);
+    await host.cleanup();
+  });
+});
+
+test.describe('matchesPartial', () => {
+  test('matches subsets of objects and whole arrays', () => {
+    expect(matchesPartial({ a: { b: 1 } }, { a: { b: 1, c: 2 }, d: 3 })).toBe(true);
+    expect(matchesPartial({ a: [1, 2] }, { a: [1, 2] })).toBe(true);
+    expect(matchesPartial({ a: [1] }, { a: [1, 2] })).toBe(false);
+    expect(matchesPartial({ a: 1 }, undefined)).toBe(false);
+    expect(matchesPartial({}, {})).toBe(true);
+  });
+});
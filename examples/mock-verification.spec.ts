@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { MockMCPHost, TransportInterceptor, JSONRPCRequest, expectAllMocksUsed } from '../src';
+
+/**
+ * Mock verification
+ *
+ * verifyMocks() and expectAllMocksUsed() report mocks that were never hit,
+ * mocks hit fewer times than declared, and requests nothing answered, so
+ * tests cannot pass for the wrong reason.
+ */
+
+const ok = (req: JSONRPCRequest) => ({ jsonrpc: '2.0' as const, id: req.id, result: {} });
+
+test.describe('Mock verification', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    interceptor = host.getInterceptor();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('built-in responders do not count as unused', async () => {
+    expect(interceptor.verifyMocks()).toEqual({ unused: [], underused: [], unmatched: [] });
+    expectAllMocksUsed(interceptor);
+  });
+
+  test('reports mocks that were never used, with their params', async () => {
+    interceptor.mockResponse('tools/call', ok).withParams({ name: 'search' });
+    interceptor.mockResponse('tools/call', ok).withParams({ name: 'weather' });
+
+    await host.callTool('weather');
+
+    expect(interceptor.verifyMocks().unused).toEqual([
+      { method: 'tools/call', params: { name: 'search' }, callCount: 0 },
+    ]);
+    expect(() => expectAllMocksUsed(interceptor)).toThrow(
+      'Mock for "tools/call" with params {"name":"search"} was never used'
+    );
+  });
+
+  test('reports mocks used fewer times than expected', async () => {
+    interceptor.mockResponse('ping', ok).times(3);
+
+    await host.sendRequest('ping');
+
+    expect(interceptor.verifyMocks().underused).toEqual([
+      { method: 'ping', callCount: 1, expectedCalls: 3 },
+    ]);
+    expect(() => expectAllMocksUsed(interceptor)).toThrow('Mock for "ping" was used 1 of 3 times');
+  });
+
+  test('reports requests that matched no mock', async () => {
+    await host.sendRequest('custom/unknown', { q: 1 });
+
+    expect(interceptor.verifyMocks().unmatched).toEqual([
+      { jsonrpc: '2.0', id: 1, method: 'custom/unknown', params: { q: 1 } },
+    ]);
+    expect(() => expectAllMocksUsed(interceptor)).toThrow(
+      'Request "custom/unknown" with params {"q":1} matched no mock'
+    );
+  });
+
+  test('optional mocks may go unused', async () => {
+    interceptor.mockResponse('ping', ok, { optional: true });
+    interceptor.mockResponse('tools/list', ok).optional();
+
+    expectAllMocksUsed(interceptor);
+  });
+
+  test('passes once every mock has been used as declared', async () => {
+    interceptor.mockResponse('ping', ok).times(2);
+    interceptor.mockResponse('tools/call', ok).withParams((params) => params !== undefined);
+
+    await host.sendRequest('ping');
+    await host.sendRequest('ping');
+    await host.callTool('anything');
+
+    expectAllMocksUsed(interceptor);
+  });
+
+  test('clearRecordedMessages forgets unmatched requests', async () => {
+    await host.sendRequest('custom/unknown');
+    interceptor.clearRecordedMessages();
+
+    expect(interceptor.verifyMocks().unmatched).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  StdioTransport,
+  TransportInterceptor,
+  JSONRPCNotification,
+} from '../src';
+
+/**
+ * Notifications in both directions
+ *
+ * The host sends client → server notifications, mocks emit server → client
+ * notifications through their context, and the interceptor records and
+ * rewrites both with their direction.
+ */
+
+test.describe('Notifications', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    interceptor = host.getInterceptor();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('initialize completes the handshake with notifications/initialized', async () => {
+    await host.initialize();
+
+    expect(interceptor.getRecordedNotifications('outgoing')).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+    ]);
+    // Notifications are not requests
+    expect(interceptor.getRecordedRequests().map(r => r.method)).toEqual(['initialize']);
+  });
+
+  test('sendNotification records a client → server notification', async () => {
+    await host.sendNotification('notifications/roots/list_changed');
+
+    expect(interceptor.findNotificationsByMethod('notifications/roots/list_changed', 'outgoing')).toHaveLength(1);
+    expect(interceptor.getRecordedNotifications('incoming')).toEqual([]);
+  });
+
+  test('mocks emit server → client notifications before responding', async () => {
+    interceptor.mockResponse('tools/call', async (req, ctx) => {
+      await ctx.notify('notifications/message', { level: 'info', data: 'working' });
+      return { jsonrpc: '2.0', id: req.id, result: { content: [] } };
+    });
+
+    await host.callTool('slow_tool');
+
+    const traffic = interceptor.getRecordedTraffic().map(e => [e.direction, 'method' in e.message ? e.message.method : 'response']);
+    expect(traffic).toEqual([
+      ['outgoing', 'tools/call'],
+      ['incoming', 'notifications/message'],
+      ['incoming', 'response'],
+    ]);
+  });
+
+  test('registered tools emit notifications through their context', async () => {
+    host.registerTool({ name: 'announce', inputSchema: { type: 'object' } }, async (_args, ctx) => {
+      await ctx.notify('notifications/resources/list_changed');
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+
+    await host.callTool('announce');
+
+    const notification = await host.waitForNotification('notifications/resources/list_changed');
+    expect(notification).toEqual({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+  });
+
+  test('waitForNotification resolves when the server emits later', async () => {
+    const pending = host.waitForNotification('notifications/tools/list_changed', 1000);
+    await host.emitNotification('notifications/tools/list_changed');
+
+    await expect(pending).resolves.toEqual({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    await expect(host.waitForNotification('notifications/never', 50)).rejects.toThrow(/Timeout/);
+  });
+
+  test('onNotification interceptors see both directions and can rewrite', async () => {
+    const seen: Array<[string, string]> = [];
+    interceptor.onNotification((notification, direction) => {
+      seen.push([direction, notification.method]);
+      if (notification.method === 'notifications/progress') {
+        return { ...notification, params: { ...(notification.params as object), rewritten: true } };
+      }
+      return notification;
+    });
+
+    const received: JSONRPCNotification[] = [];
+    interceptor.onMessage((message) => {
+      if ('method' in message && !('id' in message)) received.push(message);
+    });
+
+    await host.sendNotification('notifications/cancelled', { requestId: 1 });
+    await host.emitNotification('notifications/progress', { progressToken: 't', progress: 1 });
+
+    expect(seen).toEqual([
+      ['outgoing', 'notifications/cancelled'],
+      ['incoming', 'notifications/progress'],
+    ]);
+    expect(received[1].params).toEqual({ progressToken: 't', progress: 1, rewritten: true });
+  });
+});
+
+test.describe('Notifications over a real transport', () => {
+  test('sends notifications to the server and records server notifications', async () => {
+    const script = [
+      'const rl = require("readline").createInterface({ input: process.stdin });',
+      'rl.on("line", (line) => {',
+      '  const msg = JSON.parse(line);',
+      '  if (msg.method === "notifications/initialized") {',
+      '    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data: "ready" } }) + "\\n");',
+      '  } else if (msg.id !== undefined) {',
+      '    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: msg.id, result: { protocolVersion: "2024-11-05", capabilities: {}, serverInfo: { name: "n", version: "1" } } }) + "\\n");',
+      '  }',
+      '});',
+    ].join('\n');
+
+    const host = new MockMCPHost({
+      transport: new StdioTransport({ command: process.execPath, args: ['-e', script] }),
+    });
+
+    await host.initialize();
+    const notification = await host.waitForNotification('notifications/message', 2000);
+
+    expect(notification.params).toEqual({ level: 'info', data: 'ready' });
+    expect(host.getInterceptor().findNotificationsByMethod('notifications/initialized', 'outgoing')).toHaveLength(1);
+
+    await host.cleanup();
+  });
+});
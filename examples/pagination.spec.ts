@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { MockMCPHost } from '../src';
+
+/**
+ * Cursor-based pagination
+ *
+ * With `pageSize` set, the built-in list responders split their results into
+ * pages linked by `nextCursor`, so apps that only read the first page fail.
+ */
+
+test.describe('Pagination', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ pageSize: 2 });
+    for (const name of ['a', 'b', 'c', 'd', 'e']) {
+      host.registerTool({ name, inputSchema: { type: 'object' } }, () => ({ content: [] }));
+      host.registerResource(`file:///${name}.txt`, { text: name });
+      host.registerPrompt(name, {}, () => []);
+    }
+    host.registerResourceTemplate('db://{table}', () => null);
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('list responses are split into pages', async () => {
+    const first = await host.listTools();
+    const firstResult = first.result as { tools: Array<{ name: string }>; nextCursor: string };
+    expect(firstResult.tools.map(t => t.name)).toEqual(['a', 'b']);
+    expect(typeof firstResult.nextCursor).toBe('string');
+
+    const second = await host.listTools(firstResult.nextCursor);
+    const secondResult = second.result as { tools: Array<{ name: string }>; nextCursor: string };
+    expect(secondResult.tools.map(t => t.name)).toEqual(['c', 'd']);
+
+    const last = await host.listTools(secondResult.nextCursor);
+    expect(last.result).toEqual({ tools: [{ name: 'e', inputSchema: { type: 'object' } }] });
+  });
+
+  test('listAll helpers follow nextCursor to the end', async () => {
+    const tools = await host.listAllTools();
+    const resources = await host.listAllResources();
+    const prompts = await host.listAllPrompts();
+    const templates = await host.listAllResourceTemplates();
+
+    expect(tools.map(t => t.name)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(resources.map(r => r.uri)).toEqual(['file:///a.txt', 'file:///b.txt', 'file:///c.txt', 'file:///d.txt', 'file:///e.txt']);
+    expect(prompts.map(p => p.name)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(templates.map(t => t.uriTemplate)).toEqual(['db://{table}']);
+    expect(host.getInterceptor().findRequestsByMethod('tools/list')).toHaveLength(3);
+  });
+
+  test('invalid cursors are rejected with -32602', async () => {
+    const response = await host.listPrompts('not-a-cursor');
+
+    expect(response.error).toEqual({ code: -32602, message: 'Invalid cursor: "not-a-cursor"' });
+  });
+
+  test('without pageSize everything comes back in one page', async () => {
+    const unpaged = new MockMCPHost();
+    unpaged.registerTool({ name: 'only', inputSchema: { type: 'object' } }, () => ({ content: [] }));
+
+    const response = await unpaged.listTools();
+
+    expect(response.result).toEqual({ tools: [{ name: 'only', inputSchema: { type: 'object' } }] });
+    await unpaged.cleanup();
+  });
+
+  test('listAll rejects a server that repeats a cursor', async () => {
+    host.getInterceptor().mockResponse('tools/list', (req) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { tools: [], nextCursor: 'same' },
+    }));
+
+    await expect(host.listAllTools()).rejects.toThrow('tools/list returned the cursor "same" twice');
+  });
+});
@@ -0,0 +1,113 @@
+import { test, expect as baseExpect } from '@playwright/test';
+import { MockMCPHost, TransportInterceptor, formatTranscript, protocolMatchers } from '../src';
+
+/**
+ * Protocol transcript snapshots
+ *
+ * toMatchProtocolSnapshot() compares recorded traffic, as a readable
+ * transcript with renumbered ids and volatile fields scrubbed, against a
+ * snapshot file next to the test. Update with --update-snapshots.
+ */
+
+const expect = baseExpect.extend(protocolMatchers);
+
+test.describe('formatTranscript', () => {
+  test('renumbers ids and the references to them', async () => {
+    const interceptor = new TransportInterceptor();
+    await interceptor.interceptRequest({
+      jsonrpc: '2.0', id: 41, method: 'tools/call', params: { name: 'slow', _meta: { progressToken: 41 } },
+    });
+    await interceptor.interceptNotification(
+      { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 41, progress: 1 } },
+      'incoming'
+    );
+    await interceptor.interceptRequest({ jsonrpc: '2.0', id: 'server-7', method: 'roots/list' }, 'incoming');
+    await interceptor.interceptResponse({ jsonrpc: '2.0', id: 'server-7', result: { roots: [] } }, 'outgoing');
+    await interceptor.interceptNotification({
+      jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 41, reason: 'bored' },
+    });
+
+    baseExpect(formatTranscript(interceptor.getRecordedTraffic())).toBe([
+      '→ request #1 tools/call',
+      '  {',
+      '    "name": "slow",',
+      '    "_meta": {',
+      '      "progressToken": "#1"',
+      '    }',
+      '  }',
+      '← notification notifications/progress',
+      '  {',
+      '    "progressToken": "#1",',
+      '    "progress": 1',
+      '  }',
+      '← request #s1 roots/list',
+      '→ response #s1',
+      '  {',
+      '    "result": {',
+      '      "roots": []',
+      '    }',
+      '  }',
+      '→ notification notifications/cancelled',
+      '  {',
+      '    "requestId": "#1",',
+      '    "reason": "bored"',
+      '  }',
+      '',
+    ].join('\n'));
+  });
+
+  test('scrubs volatile fields', async () => {
+    const interceptor = new TransportInterceptor();
+    await interceptor.interceptNotification({
+      jsonrpc: '2.0',
+      method: 'custom/event',
+      params: { timestamp: Date.now(), sessionId: 'abc', nonce: Math.random(), kept: true },
+    });
+
+    const transcript = formatTranscript(interceptor.getRecordedTraffic(), { scrub: ['nonce'] });
+
+    baseExpect(transcript).toContain('"timestamp": "[scrubbed]"');
+    baseExpect(transcript).toContain('"sessionId": "[scrubbed]"');
+    baseExpect(transcript).toContain('"nonce": "[scrubbed]"');
+    baseExpect(transcript).toContain('"kept": true');
+  });
+});
+
+test.describe('toMatchProtocolSnapshot', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ hostProfile: 'Claude' });
+    host.registerTool({ name: 'greet', inputSchema: { type: 'object' } }, ({ name }) => ({
+      content: [{ type: 'text', text: `Hello, ${name}!` }],
+    }));
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('matches the handshake and a tool call', async () => {
+    await host.initialize();
+    await host.callTool('greet', { name: 'Ada' });
+
+    expect(host).toMatchProtocolSnapshot();
+  });
+
+  test('takes named snapshots of an interceptor', async () => {
+    await host.listTools();
+
+    expect(host.getInterceptor()).toMatchProtocolSnapshot({ name: 'tool-list' });
+  });
+
+  test('fails with a diff when the traffic changes', async () => {
+    const { updateSnapshots } = test.info().config;
+    test.skip(updateSnapshots === 'all' || updateSnapshots === 'changed', 'Would overwrite the snapshot');
+    await host.listTools();
+    await host.sendRequest('ping');
+
+    baseExpect(() => expect(host).toMatchProtocolSnapshot({ name: 'tool-list' })).toThrow(
+      /does not match protocol snapshot[\s\S]*\+ → request #2 ping/
+    );
+  });
+});
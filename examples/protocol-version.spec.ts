@@ -0,0 +1,156 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  LATEST_PROTOCOL_VERSION,
+  supportsFeature,
+  negotiateProtocolVersion,
+} from '../src';
+
+/**
+ * Protocol version negotiation
+ *
+ * The host negotiates the protocol version like a spec-compliant server and
+ * gates newer features on the result, so apps can be checked against
+ * hosts that only speak older revisions.
+ */
+
+function registerWeatherTool(host: MockMCPHost): void {
+  host.registerTool(
+    {
+      name: 'weather',
+      title: 'Weather',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object', properties: { temp: { type: 'number' } } },
+      annotations: { readOnlyHint: true },
+    },
+    () => ({ content: [{ type: 'text', text: '21°C' }], structuredContent: { temp: 21 } })
+  );
+}
+
+test.describe('Protocol version negotiation', () => {
+  test('requests and agrees on the latest version by default', async () => {
+    const host = new MockMCPHost();
+    const response = await host.initialize();
+
+    const init = host.getInterceptor().findRequestsByMethod('initialize')[0];
+    expect((init.params as { protocolVersion: string }).protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+    expect((response.result as { protocolVersion: string }).protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+    expect(host.getProtocolVersion()).toBe(LATEST_PROTOCOL_VERSION);
+
+    await host.cleanup();
+  });
+
+  test('accepts an older requested version the host supports', async () => {
+    const host = new MockMCPHost({ protocolVersion: '2025-03-26' });
+    const response = await host.initialize();
+
+    expect((response.result as { protocolVersion: string }).protocolVersion).toBe('2025-03-26');
+    expect(host.getProtocolVersion()).toBe('2025-03-26');
+
+    await host.cleanup();
+  });
+
+  test('counter-offers the latest supported version for an unknown request', async () => {
+    const host = new MockMCPHost({ protocolVersions: ['2025-03-26', '2024-11-05'] });
+
+    const response = await host.sendRequest('initialize', {
+      protocolVersion: '2099-01-01',
+      capabilities: {},
+      clientInfo: { name: 'future-client', version: '1.0.0' },
+    });
+
+    expect((response.result as { protocolVersion: string }).protocolVersion).toBe('2025-03-26');
+
+    await host.cleanup();
+  });
+
+  test('rejects a counter-offer the client does not support', async () => {
+    const host = new MockMCPHost({ protocolVersions: ['2025-06-18'] });
+    host.getInterceptor().mockResponse('initialize', (req) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { protocolVersion: '2024-11-05', capabilities: {}, serverInfo: { name: 'old', version: '1' } },
+    }));
+
+    await expect(host.initialize()).rejects.toThrow(/unsupported protocol version "2024-11-05"/);
+    expect(host.isInitialized()).toBe(false);
+
+    await host.cleanup();
+  });
+
+  test('negotiateProtocolVersion and supportsFeature follow the spec', () => {
+    expect(negotiateProtocolVersion('2025-06-18', ['2025-06-18', '2024-11-05'])).toBe('2025-06-18');
+    expect(negotiateProtocolVersion('1999-01-01', ['2024-11-05', '2025-06-18'])).toBe('2025-06-18');
+
+    expect(supportsFeature('2025-06-18', 'structuredContent')).toBe(true);
+    expect(supportsFeature('2025-03-26', 'structuredContent')).toBe(false);
+    expect(supportsFeature('2025-03-26', 'batching')).toBe(true);
+    expect(supportsFeature('2025-06-18', 'batching')).toBe(false);
+  });
+});
+
+test.describe('Version-gated behavior', () => {
+  test('newer hosts return titles, output schemas and structured content', async () => {
+    const host = new MockMCPHost({ protocolVersion: '2025-06-18' });
+    registerWeatherTool(host);
+    await host.initialize();
+
+    const list = await host.listTools();
+    const call = await host.callTool('weather');
+
+    expect((list.result as { tools: unknown[] }).tools[0]).toMatchObject({
+      title: 'Weather',
+      outputSchema: { type: 'object' },
+      annotations: { readOnlyHint: true },
+    });
+    expect(call.result).toMatchObject({ structuredContent: { temp: 21 } });
+
+    await host.cleanup();
+  });
+
+  test('2025-03-26 hosts drop fields introduced in 2025-06-18', async () => {
+    const host = new MockMCPHost({ protocolVersions: ['2025-03-26', '2024-11-05'] });
+    registerWeatherTool(host);
+    await host.initialize();
+
+    const list = await host.listTools();
+    const call = await host.callTool('weather');
+
+    expect((list.result as { tools: unknown[] }).tools[0]).toEqual({
+      name: 'weather',
+      inputSchema: { type: 'object' },
+      annotations: { readOnlyHint: true },
+    });
+    expect(call.result).toEqual({ content: [{ type: 'text', text: '21°C' }] });
+
+    await host.cleanup();
+  });
+
+  test('2024-11-05 hosts also drop tool annotations', async () => {
+    const host = new MockMCPHost({ protocolVersion: '2024-11-05' });
+    registerWeatherTool(host);
+    await host.initialize();
+
+    const list = await host.listTools();
+    expect((list.result as { tools: unknown[] }).tools[0]).toEqual({
+      name: 'weather',
+      inputSchema: { type: 'object' },
+    });
+
+    await host.cleanup();
+  });
+
+  test('elicitation is unavailable before 2025-06-18', async () => {
+    const host = new MockMCPHost({ protocolVersion: '2025-03-26' });
+    host.onElicitation(() => ({ action: 'accept', content: {} }));
+    await host.initialize();
+
+    const init = host.getInterceptor().findRequestsByMethod('initialize')[0];
+    expect((init.params as { capabilities: object }).capabilities).toEqual({});
+
+    const response = await host.receiveServerRequest('elicitation/create', { message: 'ok?', requestedSchema: {} });
+    expect(response.error?.code).toBe(-32601);
+
+    await host.cleanup();
+  });
+});
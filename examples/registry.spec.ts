@@ -0,0 +1,298 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  TransportInterceptor,
+  expectToolCall,
+  expectNoErrors,
+} from '../src';
+
+/**
+ * Declarative registries on MockMCPHost
+ *
+ * Everything registered on the host backs the built-in responders, so tests
+ * describe the server surface instead of hand-routing JSON-RPC methods.
+ */
+
+test.describe('Tool registry', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    interceptor = host.getInterceptor();
+
+    host.registerTool(
+      {
+        name: 'greet',
+        description: 'Greet someone by name',
+        inputSchema: {
+          type: 'object',
+          properties: { name: { type: 'string' } },
+          required: ['name'],
+        },
+        annotations: { readOnlyHint: true },
+      },
+      async ({ name }) => ({ content: [{ type: 'text', text: `Hello, ${name}!` }] })
+    );
+
+    host.registerTool(
+      {
+        name: 'add',
+        inputSchema: { type: 'object' },
+        outputSchema: {
+          type: 'object',
+          properties: { sum: { type: 'number' } },
+        },
+      },
+      ({ a, b }) => {
+        const sum = Number(a) + Number(b);
+        return { content: [{ type: 'text', text: String(sum) }], structuredContent: { sum } };
+      }
+    );
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('tools/list returns the registered definitions', async () => {
+    const response = await host.listTools();
+
+    expect(response.result).toEqual({
+      tools: [
+        {
+          name: 'greet',
+          description: 'Greet someone by name',
+          inputSchema: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+          annotations: { readOnlyHint: true },
+        },
+        {
+          name: 'add',
+          inputSchema: { type: 'object' },
+          outputSchema: { type: 'object', properties: { sum: { type: 'number' } } },
+        },
+      ],
+    });
+  });
+
+  test('tools/call is routed to the matching handler', async () => {
+    const greeting = await host.callTool('greet', { name: 'Ada' });
+    const sum = await host.callTool('add', { a: 2, b: 40 });
+
+    expect(greeting.result).toEqual({ content: [{ type: 'text', text: 'Hello, Ada!' }] });
+    expect(sum.result).toEqual({
+      content: [{ type: 'text', text: '42' }],
+      structuredContent: { sum: 42 },
+    });
+
+    expectToolCall(interceptor, 'greet', { name: 'Ada' });
+    expectNoErrors(interceptor);
+  });
+
+  test('unknown tools are rejected with -32602', async () => {
+    const response = await host.sendRequest('tools/call', { name: 'missing', arguments: {} });
+
+    expect(response.error).toEqual({ code: -32602, message: 'Unknown tool: missing' });
+  });
+
+  test('handler exceptions become tool execution errors', async () => {
+    host.registerTool({ name: 'explode', inputSchema: { type: 'object' } }, () => {
+      throw new Error('kaboom');
+    });
+
+    const response = await host.sendRequest('tools/call', { name: 'explode', arguments: {} });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result).toEqual({
+      content: [{ type: 'text', text: 'kaboom' }],
+      isError: true,
+    });
+  });
+
+  test('tools can be replaced and removed', async () => {
+    host.registerTool({ name: 'greet', inputSchema: { type: 'object' } }, () => ({
+      content: [{ type: 'text', text: 'Hi' }],
+    }));
+    expect(host.unregisterTool('add')).toBe(true);
+    expect(host.unregisterTool('add')).toBe(false);
+
+    const list = await host.listTools();
+    expect((list.result as { tools: Array<{ name: string }> }).tools.map(t => t.name)).toEqual(['greet']);
+
+    const response = await host.callTool('greet', { name: 'Ada' });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Hi' }] });
+  });
+
+  test('an explicit tools/call mock still takes precedence', async () => {
+    interceptor.mockResponse('tools/call', (req) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { content: [{ type: 'text', text: 'mocked' }] },
+    }));
+
+    const response = await host.callTool('greet', { name: 'Ada' });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'mocked' }] });
+  });
+});
+
+test.describe('Resource registry', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+
+    host.registerResource('ui://widget/app.html', {
+      mimeType: 'text/html',
+      text: '<div id="app"></div>',
+      description: 'Widget UI',
+    });
+    host.registerResource('data://logo.png', { mimeType: 'image/png', blob: 'iVBORw0KGgo=' });
+
+    const files: Record<string, string> = { 'readme.md': '# Readme', 'src/index.ts': 'export {};' };
+    host.registerResourceTemplate(
+      'file:///{+path}',
+      (_uri, { path }) => {
+        const text = files[path as string];
+        return text === undefined ? null : { text };
+      },
+      { name: 'Project files', mimeType: 'text/plain' }
+    );
+    host.registerResourceTemplate('db://{table}/rows{?limit}', (_uri, { table, limit }) => ({
+      mimeType: 'application/json',
+      text: JSON.stringify({ table, limit: Number(limit ?? 10) }),
+    }));
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('resources/list returns registered resources', async () => {
+    const response = await host.listResources();
+
+    expect(response.result).toEqual({
+      resources: [
+        { uri: 'ui://widget/app.html', name: 'app.html', description: 'Widget UI', mimeType: 'text/html' },
+        { uri: 'data://logo.png', name: 'logo.png', mimeType: 'image/png' },
+      ],
+    });
+  });
+
+  test('resources/templates/list returns registered templates', async () => {
+    const response = await host.listResourceTemplates();
+
+    expect(response.result).toEqual({
+      resourceTemplates: [
+        { uriTemplate: 'file:///{+path}', name: 'Project files', mimeType: 'text/plain' },
+        { uriTemplate: 'db://{table}/rows{?limit}', name: 'db://{table}/rows{?limit}' },
+      ],
+    });
+  });
+
+  test('resources/read serves text and blob resources', async () => {
+    const html = await host.readResource('ui://widget/app.html');
+    const png = await host.readResource('data://logo.png');
+
+    expect(html.result).toEqual({
+      contents: [{ uri: 'ui://widget/app.html', mimeType: 'text/html', text: '<div id="app"></div>' }],
+    });
+    expect(png.result).toEqual({
+      contents: [{ uri: 'data://logo.png', mimeType: 'image/png', blob: 'iVBORw0KGgo=' }],
+    });
+  });
+
+  test('resources/read matches URI templates', async () => {
+    const nested = await host.readResource('file:///src/index.ts');
+    const query = await host.readResource('db://users/rows?limit=5');
+
+    expect(nested.result).toEqual({
+      contents: [{ uri: 'file:///src/index.ts', mimeType: 'text/plain', text: 'export {};' }],
+    });
+    expect(query.result).toEqual({
+      contents: [{ uri: 'db://users/rows?limit=5', mimeType: 'application/json', text: '{"table":"users","limit":5}' }],
+    });
+  });
+
+  test('unknown resources return the spec "resource not found" error', async () => {
+    const unmatched = await host.readResource('ui://missing.html');
+    const readerMiss = await host.readResource('file:///nope.txt');
+
+    expect(unmatched.error).toEqual({ code: -32002, message: 'Resource not found', data: { uri: 'ui://missing.html' } });
+    expect(readerMiss.error?.code).toBe(-32002);
+  });
+});
+
+test.describe('Prompt registry', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+
+    host.registerPrompt(
+      'describe_image',
+      {
+        description: 'Describe an image in context',
+        arguments: [
+          { name: 'focus', required: true },
+          { name: 'tone' },
+        ],
+      },
+      ({ focus, tone }) => [
+        { role: 'user', content: { type: 'text', text: `Describe the ${focus}${tone ? ` in a ${tone} tone` : ''}.` } },
+        { role: 'user', content: { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' } },
+        {
+          role: 'user',
+          content: {
+            type: 'resource',
+            resource: { uri: 'file:///notes.md', mimeType: 'text/markdown', text: 'Taken at dusk.' },
+          },
+        },
+      ]
+    );
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('prompts/list returns registered prompts', async () => {
+    const response = await host.listPrompts();
+
+    expect(response.result).toEqual({
+      prompts: [
+        {
+          name: 'describe_image',
+          description: 'Describe an image in context',
+          arguments: [{ name: 'focus', required: true }, { name: 'tone' }],
+        },
+      ],
+    });
+  });
+
+  test('prompts/get renders multi-part messages', async () => {
+    const response = await host.getPrompt('describe_image', { focus: 'sky', tone: 'poetic' });
+    const result = response.result as { description: string; messages: Array<{ content: { type: string } }> };
+
+    expect(result.description).toBe('Describe an image in context');
+    expect(result.messages.map(m => m.content.type)).toEqual(['text', 'image', 'resource']);
+    expect(result.messages[0].content).toEqual({ type: 'text', text: 'Describe the sky in a poetic tone.' });
+  });
+
+  test('missing required arguments are rejected with -32602', async () => {
+    const response = await host.getPrompt('describe_image', { tone: 'dry' });
+
+    expect(response.error).toEqual({ code: -32602, message: 'Missing required argument: focus' });
+  });
+
+  test('non-string arguments and unknown prompts are rejected with -32602', async () => {
+    const badArg = await host.getPrompt('describe_image', { focus: 42 });
+    const unknown = await host.getPrompt('missing');
+
+    expect(badArg.error).toEqual({ code: -32602, message: 'Argument "focus" must be a string' });
+    expect(unknown.error).toEqual({ code: -32602, message: 'Unknown prompt: missing' });
+  });
+});
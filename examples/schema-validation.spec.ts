@@ -0,0 +1,216 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import {
+  MockMCPHost,
+  StdioTransport,
+  validateSchema,
+  expectNoSchemaViolations,
+} from '../src';
+
+/**
+ * JSON Schema validation of tool calls
+ *
+ * Every tools/call whose tool schemas are known (from tools/list or the
+ * registry) has its arguments checked against inputSchema and its
+ * structuredContent against outputSchema.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+test.describe('validateSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+      size: { enum: ['s', 'm', 'l'] },
+      owner: { $ref: '#/$defs/person' },
+    },
+    required: ['name'],
+    additionalProperties: false,
+    $defs: {
+      person: {
+        type: 'object',
+        properties: { age: { type: 'integer', minimum: 0 } },
+      },
+    },
+  };
+
+  test('accepts a valid value', () => {
+    expect(validateSchema(schema, { name: 'a', tags: ['x', 'y'], size: 'm', owner: { age: 3 } })).toEqual([]);
+  });
+
+  test('reports each error with its JSON pointer', () => {
+    const errors = validateSchema(schema, {
+      tags: ['x', 7, 'x'],
+      size: 'xl',
+      owner: { age: -1.5 },
+      'extra/key': true,
+    });
+
+    expect(errors).toEqual([
+      { path: '', keyword: 'required', message: 'missing required property "name"' },
+      { path: '/tags/2', keyword: 'uniqueItems', message: 'duplicates an earlier item' },
+      { path: '/tags/1', keyword: 'type', message: 'expected string, got integer' },
+      { path: '/size', keyword: 'enum', message: 'must be one of "s", "m", "l"' },
+      { path: '/owner/age', keyword: 'type', message: 'expected integer, got number' },
+      { path: '/extra~1key', keyword: 'additionalProperties', message: 'unexpected property "extra/key"' },
+    ]);
+  });
+
+  test('supports composition keywords', () => {
+    const either = { oneOf: [{ type: 'string' }, { type: 'number', multipleOf: 5 }] };
+
+    expect(validateSchema(either, 'x')).toEqual([]);
+    expect(validateSchema(either, 10)).toEqual([]);
+    expect(validateSchema(either, 7)).toEqual([
+      { path: '', keyword: 'oneOf', message: 'must match exactly one schema in oneOf (matched 0)' },
+    ]);
+    expect(validateSchema({ not: { const: 0 } }, 0)[0].keyword).toBe('not');
+    expect(validateSchema({ if: { minimum: 10 }, then: { multipleOf: 10 } }, 15)[0].keyword).toBe('multipleOf');
+  });
+
+  test('accepts patterns that are only valid without the u flag', () => {
+    const handle = { type: 'string', pattern: '^[\\w\\@]+$' };
+
+    expect(validateSchema(handle, 'ada@home')).toEqual([]);
+    expect(validateSchema(handle, 'ada home')[0].keyword).toBe('pattern');
+    expect(validateSchema({ type: 'object', patternProperties: { '^x\\_': { type: 'number' } } }, { x_a: 'no' })).toEqual([
+      { path: '/x_a', keyword: 'type', message: 'expected number, got string' },
+    ]);
+  });
+
+  test('reports invalid patterns instead of throwing', () => {
+    expect(validateSchema({ type: 'string', pattern: '(' }, 'x')).toEqual([
+      { path: '', keyword: 'pattern', message: 'pattern ( is not a valid regular expression' },
+    ]);
+  });
+
+  test('stops at $ref cycles that do not descend into the value', () => {
+    expect(validateSchema({ $ref: '#' }, 1)).toEqual([]);
+    expect(validateSchema({ $ref: '#', type: 'string' }, 'x')).toEqual([]);
+    expect(validateSchema({ $ref: '#', type: 'string' }, 1).map(e => e.keyword)).toContain('type');
+    const loop = { $defs: { a: { $ref: '#/$defs/b' }, b: { anyOf: [{ $ref: '#/$defs/a' }, { type: 'integer' }] } }, $ref: '#/$defs/a' };
+    expect(validateSchema(loop, 1.5)).toEqual([]);
+    // Recursion that descends into the value still validates every level
+    const tree = { type: 'object', properties: { child: { $ref: '#' } }, additionalProperties: false };
+    expect(validateSchema(tree, { child: { child: { leaf: 1 } } })).toEqual([
+      { path: '/child/child/leaf', keyword: 'additionalProperties', message: 'unexpected property "leaf"' },
+    ]);
+  });
+
+  test('only counts own properties as present', () => {
+    expect(validateSchema({ type: 'object', required: ['constructor'] }, {})).toEqual([
+      { path: '', keyword: 'required', message: 'missing required property "constructor"' },
+    ]);
+    expect(validateSchema({ type: 'object', additionalProperties: false }, { toString: 'x' })[0].keyword).toBe(
+      'additionalProperties'
+    );
+    expect(validateSchema({ const: {} }, { constructor: Object })[0].keyword).toBe('const');
+  });
+});
+
+test.describe('Tool schema validation in MockMCPHost', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    host.registerTool(
+      {
+        name: 'weather',
+        inputSchema: {
+          type: 'object',
+          properties: { city: { type: 'string' }, days: { type: 'integer', minimum: 1 } },
+          required: ['city'],
+        },
+        outputSchema: {
+          type: 'object',
+          properties: { temperature: { type: 'number' } },
+          required: ['temperature'],
+        },
+      },
+      ({ days }) => ({
+        content: [{ type: 'text', text: 'sunny' }],
+        structuredContent: days === 0 ? { temperature: 'hot' } : { temperature: 21 },
+      })
+    );
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('valid calls record nothing', async () => {
+    await host.callTool('weather', { city: 'Oslo', days: 2 });
+
+    expectNoSchemaViolations(host.getInterceptor());
+  });
+
+  test('invalid arguments are reported with their path', async () => {
+    await host.callTool('weather', { days: 'two' });
+
+    expect(host.getInterceptor().getProtocolViolations('schema.input').map(v => v.reason)).toEqual([
+      'Tool "weather" arguments at (root): missing required property "city"',
+      'Tool "weather" arguments at /days: expected integer, got string',
+    ]);
+    expect(() => expectNoSchemaViolations(host.getInterceptor())).toThrow(/at \/days: expected integer/);
+  });
+
+  test('structuredContent is checked against outputSchema', async () => {
+    await host.callTool('weather', { city: 'Oslo', days: 0 });
+
+    const [violation] = host.getInterceptor().getProtocolViolations('schema.output');
+    expect(violation.reason).toBe('Tool "weather" structuredContent at /temperature: expected number, got string');
+  });
+
+  test('a missing structuredContent is reported when an outputSchema is declared', async () => {
+    host.getInterceptor().mockResponse('tools/call', (req) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { content: [{ type: 'text', text: 'sunny' }] },
+    }));
+
+    await host.callTool('weather', { city: 'Oslo' });
+
+    expect(host.getInterceptor().getProtocolViolations('schema.output')).toHaveLength(1);
+  });
+
+  test('patterns with identity escapes do not break tool calls', async () => {
+    host.registerTool(
+      { name: 'mention', inputSchema: { type: 'object', properties: { handle: { type: 'string', pattern: '^[\\w\\@]+$' } } } },
+      ({ handle }) => ({ content: [{ type: 'text', text: `@${handle}` }] })
+    );
+
+    const response = await host.sendRequest('tools/call', { name: 'mention', arguments: { handle: 'ada' } });
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: '@ada' }] });
+    expectNoSchemaViolations(host.getInterceptor());
+  });
+
+  test('can be turned off', async () => {
+    const lax = new MockMCPHost({ validateSchemas: false });
+    lax.registerTool({ name: 'strict', inputSchema: { type: 'object', required: ['x'] } }, () => ({ content: [] }));
+
+    await lax.callTool('strict', {});
+
+    expectNoSchemaViolations(lax.getInterceptor());
+    await lax.cleanup();
+  });
+});
+
+test.describe('Tool schema validation against a real server', () => {
+  test('uses the schemas advertised in tools/list', async () => {
+    const host = new MockMCPHost({
+      transport: new StdioTransport({ command: process.execPath, args: [SERVER] }),
+    });
+    await host.initialize();
+    await host.listTools();
+
+    await host.callTool('add', { a: 1, b: '2' });
+
+    expect(host.getInterceptor().getProtocolViolations('schema.input').map(v => v.reason)).toEqual([
+      'Tool "add" arguments at /b: expected number, got string',
+    ]);
+    await host.cleanup();
+  });
+});
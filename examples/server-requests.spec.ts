@@ -0,0 +1,146 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import {
+  MockMCPHost,
+  StdioTransport,
+  TransportInterceptor,
+  expectCapability,
+} from '../src';
+
+/**
+ * Server-initiated requests
+ *
+ * Servers call back into the client for sampling, elicitation and roots.
+ * The host answers them with registered responders, whether the request
+ * comes from a mock in the middle of a tools/call or from a real server.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+test.describe('Client-side responders', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost();
+    interceptor = host.getInterceptor();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('advertises client capabilities for registered responders', async () => {
+    host.onSampling(() => ({ role: 'assistant', content: { type: 'text', text: '' }, model: 'test' }));
+    await host.setRoots([{ uri: 'file:///workspace', name: 'Workspace' }]);
+
+    await host.initialize();
+
+    const init = interceptor.findRequestsByMethod('initialize')[0];
+    expect((init.params as { capabilities: unknown }).capabilities).toEqual({
+      roots: { listChanged: true },
+      sampling: {},
+    });
+  });
+
+  test('a tool can elicit confirmation in the middle of tools/call', async () => {
+    host.onElicitation(async (params) => {
+      expect(params.message).toBe('Delete report.txt?');
+      return { action: 'accept', content: { confirm: true } };
+    });
+
+    host.registerTool({ name: 'delete_file', inputSchema: { type: 'object' } }, async ({ path }, ctx) => {
+      const answer = await ctx.sendRequest('elicitation/create', {
+        message: `Delete ${path}?`,
+        requestedSchema: { type: 'object', properties: { confirm: { type: 'boolean' } } },
+      });
+      const result = answer.result as { action: string; content?: { confirm?: boolean } };
+      const confirmed = result.action === 'accept' && result.content?.confirm === true;
+      return { content: [{ type: 'text', text: confirmed ? `Deleted ${path}` : 'Cancelled' }] };
+    });
+
+    const response = await host.callTool('delete_file', { path: 'report.txt' });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Deleted report.txt' }] });
+
+    const traffic = interceptor.getRecordedTraffic().map(e => [
+      e.direction,
+      'method' in e.message ? e.message.method : `response #${e.message.id}`,
+    ]);
+    expect(traffic).toEqual([
+      ['outgoing', 'tools/call'],
+      ['incoming', 'elicitation/create'],
+      ['outgoing', 'response #1'],
+      ['incoming', 'response #1'],
+    ]);
+    expect(interceptor.getRecordedRequests('incoming').map(r => r.method)).toEqual(['elicitation/create']);
+  });
+
+  test('mocks can request sampling from the client', async () => {
+    host.onSampling(async (params) => ({
+      role: 'assistant',
+      content: { type: 'text', text: `Summary of ${params.messages.length} message(s)` },
+      model: 'test-model',
+      stopReason: 'endTurn',
+    }));
+
+    interceptor.mockResponse('tools/call', async (req, ctx) => {
+      const sample = await ctx.sendRequest('sampling/createMessage', {
+        messages: [{ role: 'user', content: { type: 'text', text: 'Summarize this' } }],
+        maxTokens: 100,
+      });
+      const text = (sample.result as { content: { text: string } }).content.text;
+      return { jsonrpc: '2.0', id: req.id, result: { content: [{ type: 'text', text }] } };
+    });
+
+    const response = await host.callTool('summarize');
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Summary of 1 message(s)' }] });
+  });
+
+  test('roots/list returns the configured roots and changes are announced', async () => {
+    await host.setRoots([{ uri: 'file:///a' }]);
+    await host.initialize();
+
+    const list = await host.receiveServerRequest('roots/list');
+    expect(list.result).toEqual({ roots: [{ uri: 'file:///a' }] });
+
+    await host.setRoots([{ uri: 'file:///a' }, { uri: 'file:///b' }]);
+    expect(interceptor.findNotificationsByMethod('notifications/roots/list_changed', 'outgoing')).toHaveLength(1);
+  });
+
+  test('requests without a responder are answered with -32601', async () => {
+    const sampling = await host.receiveServerRequest('sampling/createMessage', { messages: [], maxTokens: 1 });
+    const roots = await host.receiveServerRequest('roots/list');
+
+    expect(sampling.error?.code).toBe(-32601);
+    expect(roots.error?.code).toBe(-32601);
+  });
+
+  test('responder failures are answered with -32603', async () => {
+    host.onElicitation(() => {
+      throw new Error('user closed the dialog');
+    });
+
+    const response = await host.receiveServerRequest('elicitation/create', { message: 'ok?', requestedSchema: {} });
+    expect(response.error).toEqual({ code: -32603, message: 'user closed the dialog' });
+  });
+});
+
+test.describe('Server-initiated requests over a real transport', () => {
+  test('answers elicitation from a real server during tools/call', async () => {
+    const host = new MockMCPHost({
+      transport: new StdioTransport({ command: process.execPath, args: [SERVER] }),
+    });
+    host.onElicitation(() => ({ action: 'accept', content: { confirm: true } }));
+
+    const init = await host.initialize();
+    expectCapability(init, 'tools');
+
+    const response = await host.callTool('delete_file', { path: 'a.txt' });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Deleted a.txt' }] });
+
+    const elicitation = host.getInterceptor().getRecordedRequests('incoming');
+    expect(elicitation.map(r => [r.id, r.method])).toEqual([['server-1', 'elicitation/create']]);
+
+    await host.cleanup();
+  });
+});
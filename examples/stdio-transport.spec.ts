@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import {
+  MockMCPHost,
+  StdioTransport,
+  expectToolCall,
+  expectMessageSequence,
+  expectNoErrors,
+} from '../src';
+
+/**
+ * StdioTransport — driving a real MCP server process
+ *
+ * These tests spawn a small fixture server over stdio. Requests that no
+ * mock answers go to the process; the interceptor still sees everything.
+ */
+
+const SERVER = path.join(__dirname, 'fixtures', 'stdio-server.js');
+
+test.describe('StdioTransport with MockMCPHost', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({
+      transport: new StdioTransport({ command: process.execPath, args: [SERVER] }),
+    });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('initializes against the real server', async () => {
+    const response = await host.initialize({ name: 'stdio-test', version: '1.0.0' });
+
+    expect(response.result).toMatchObject({
+      serverInfo: { name: 'fixture-stdio-server' },
+    });
+    expect(host.isInitialized()).toBe(true);
+  });
+
+  test('listTools and callTool reach the server process', async () => {
+    await host.initialize();
+
+    const list = await host.listTools();
+    const tools = (list.result as { tools: Array<{ name: string }> }).tools;
+    expect(tools.map(t => t.name)).toEqual(['echo', 'add', 'delete_file']);
+
+    const response = await host.callTool('add', { a: 2, b: 3 });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: '5' }] });
+
+    expectMessageSequence(host.getInterceptor(), ['initialize', 'tools/list', 'tools/call']);
+    expectToolCall(host.getInterceptor(), 'add', { a: 2, b: 3 });
+    expectNoErrors(host.getInterceptor());
+  });
+
+  test('correlates concurrent responses by id', async () => {
+    await host.initialize();
+
+    const responses = await Promise.all([
+      host.callTool('echo', { text: 'one' }),
+      host.callTool('echo', { text: 'two' }),
+      host.callTool('echo', { text: 'three' }),
+    ]);
+
+    const texts = responses.map(r => (r.result as { content: Array<{ text: string }> }).content[0].text);
+    expect(texts).toEqual(['one', 'two', 'three']);
+  });
+
+  test('mocks take precedence over the server', async () => {
+    host.getInterceptor().mockResponse('tools/call', (req) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { content: [{ type: 'text', text: 'mocked' }] },
+    }));
+
+    await host.initialize();
+    const response = await host.callTool('echo', { text: 'real' });
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'mocked' }] });
+  });
+
+  test('interceptors can rewrite requests before they reach the server', async () => {
+    host.getInterceptor().onRequest((request) => {
+      if (request.method !== 'tools/call') return request;
+      return { ...request, params: { name: 'echo', arguments: { text: 'rewritten' } } };
+    });
+
+    await host.initialize();
+    const response = await host.callTool('echo', { text: 'original' });
+
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'rewritten' }] });
+  });
+
+  test('surfaces server errors as JSON-RPC errors', async () => {
+    await host.initialize();
+
+    const response = await host.sendRequest('unknown/method');
+    expect(response.error?.code).toBe(-32601);
+  });
+});
+
+test.describe('StdioTransport lifecycle', () => {
+  test('rejects when the command cannot be spawned', async () => {
+    // close() used to wait forever for a child that never started
+    test.setTimeout(5_000);
+    const transport = new StdioTransport({ command: 'definitely-not-a-real-mcp-server' });
+
+    await expect(transport.start()).rejects.toThrow(/ENOENT/);
+    await transport.close();
+  });
+
+  test('fails in-flight requests when the process exits', async () => {
+    const transport = new StdioTransport({
+      command: process.execPath,
+      args: ['-e', 'process.stdin.once("data", () => process.exit(3))'],
+    });
+
+    await expect(
+      transport.request({ jsonrpc: '2.0', id: 1, method: 'ping' })
+    ).rejects.toThrow(/exited \(code 3/);
+
+    await transport.close();
+  });
+});
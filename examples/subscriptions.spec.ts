@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { MockMCPHost } from '../src';
+
+/**
+ * Resource subscriptions
+ *
+ * Clients subscribe to resources and receive notifications/resources/updated
+ * when the host changes them — but only on hosts whose profile advertises
+ * `resources.subscribe`.
+ */
+
+test.describe('Resource subscriptions', () => {
+  let host: MockMCPHost;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ hostProfile: 'Claude' });
+    host.registerResource('file:///notes.md', { mimeType: 'text/markdown', text: 'v1' });
+    host.registerResource('file:///todo.md', { mimeType: 'text/markdown', text: 'buy milk' });
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('updateResource notifies subscribers and serves the new content', async () => {
+    const subscribed = await host.subscribeResource('file:///notes.md');
+    expect(subscribed.result).toEqual({});
+
+    const notified = await host.updateResource('file:///notes.md', { mimeType: 'text/markdown', text: 'v2' });
+
+    expect(notified).toBe(true);
+    const notification = await host.waitForNotification('notifications/resources/updated', 100);
+    expect(notification.params).toEqual({ uri: 'file:///notes.md' });
+
+    const read = await host.readResource('file:///notes.md');
+    expect(read.result).toEqual({
+      contents: [{ uri: 'file:///notes.md', mimeType: 'text/markdown', text: 'v2' }],
+    });
+  });
+
+  test('only subscribed resources are notified', async () => {
+    await host.subscribeResource('file:///notes.md');
+
+    expect(await host.updateResource('file:///todo.md', { text: 'buy bread' })).toBe(false);
+    expect(host.getInterceptor().findNotificationsByMethod('notifications/resources/updated')).toHaveLength(0);
+  });
+
+  test('unsubscribing stops notifications', async () => {
+    await host.subscribeResource('file:///notes.md');
+    await host.unsubscribeResource('file:///notes.md');
+
+    expect(host.getResourceSubscriptions()).toEqual([]);
+    expect(await host.updateResource('file:///notes.md')).toBe(false);
+  });
+
+  test('subscribing is rejected when the profile does not support it', async () => {
+    const vscode = new MockMCPHost({ hostProfile: 'VSCode' });
+
+    const response = await vscode.subscribeResource('file:///notes.md');
+
+    expect(response.error).toEqual({ code: -32601, message: 'Method not found: resources/subscribe' });
+    expect(vscode.getResourceSubscriptions()).toEqual([]);
+    await vscode.cleanup();
+  });
+});
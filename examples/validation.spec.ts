@@ -0,0 +1,108 @@
+import { test, expect } from '@playwright/test';
+import {
+  MockMCPHost,
+  TransportInterceptor,
+  JSONRPCResponse,
+  expectWellFormedTraffic,
+  expectProtocolViolation,
+} from '../src';
+
+/**
+ * JSON-RPC message validation
+ *
+ * With validation enabled, every intercepted message is checked against the
+ * JSON-RPC 2.0 and MCP envelope rules and problems are recorded as protocol
+ * violations, so malformed mocks and server bugs surface immediately.
+ */
+
+test.describe('Message validation', () => {
+  let host: MockMCPHost;
+  let interceptor: TransportInterceptor;
+
+  test.beforeEach(async () => {
+    host = new MockMCPHost({ validateMessages: true, hostProfile: 'Claude' });
+    interceptor = host.getInterceptor();
+  });
+
+  test.afterEach(async () => {
+    await host.cleanup();
+  });
+
+  test('traffic produced by the host is well formed', async () => {
+    host.registerTool({ name: 'greet', inputSchema: { type: 'object' } }, async (_args, { progress }) => {
+      await progress(1, 1);
+      return { content: [{ type: 'text', text: 'hi' }] };
+    });
+    host.onSampling(() => ({ role: 'assistant', content: { type: 'text', text: 'ok' }, model: 'mock' }));
+
+    await host.initialize();
+    await host.callTool('greet', {}, { onProgress: () => {} });
+    await host.receiveServerRequest('sampling/createMessage', { messages: [], maxTokens: 1 });
+    await host.listPrompts('bogus-cursor');
+
+    expectWellFormedTraffic(interceptor);
+  });
+
+  test('flags a mock response with both result and error', async () => {
+    interceptor.mockResponse('tools/list', (req) => ({
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { tools: [] },
+      error: { code: -32603, message: 'oops' },
+    }));
+
+    await host.listTools();
+
+    expectProtocolViolation(interceptor, 'jsonrpc.result-and-error');
+  });
+
+  test('flags wrong versions, non-integer error codes and unknown response ids', async () => {
+    interceptor.mockResponse('ping', (req) => ({
+      jsonrpc: '1.0',
+      id: 999,
+      error: { code: 1.5, message: 'bad' },
+    } as unknown as JSONRPCResponse));
+
+    await host.sendRequest('ping');
+
+    const rules = interceptor.getProtocolViolations().map(v => v.rule);
+    expect(rules).toEqual(['jsonrpc.version', 'jsonrpc.error-code', 'jsonrpc.response-id']);
+  });
+
+  test('flags null and reused request ids', async () => {
+    await interceptor.interceptRequest({ jsonrpc: '2.0', id: 7, method: 'ping' });
+    await interceptor.interceptRequest({ jsonrpc: '2.0', id: 7, method: 'ping' });
+    await interceptor.interceptRequest({ jsonrpc: '2.0', id: null as unknown as number, method: 'ping' });
+
+    expectProtocolViolation(interceptor, 'mcp.id-reused');
+    expectProtocolViolation(interceptor, 'mcp.id-null');
+  });
+
+  test('flags duplicate responses', async () => {
+    await interceptor.interceptRequest({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    await interceptor.interceptResponse({ jsonrpc: '2.0', id: 1, result: {} });
+    await interceptor.interceptResponse({ jsonrpc: '2.0', id: 1, result: {} });
+
+    const violation = expectProtocolViolation(interceptor, 'jsonrpc.duplicate-response');
+    expect(violation.reason).toBe('Request 1 was already answered');
+  });
+
+  test('expectWellFormedTraffic reports each problem with its reason', async () => {
+    await interceptor.interceptNotification({ jsonrpc: '2.0', method: 'notifications/progress', params: [1, 2] });
+
+    expect(() => expectWellFormedTraffic(interceptor)).toThrow(
+      /\[mcp\.params\] MCP "params" must be an object, not an array/
+    );
+  });
+});
+
+test.describe('expectWellFormedTraffic without validation enabled', () => {
+  test('validates the recorded traffic after the fact', async () => {
+    const interceptor = new TransportInterceptor();
+    await interceptor.interceptRequest({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    await interceptor.interceptResponse({ jsonrpc: '2.0', id: 1 } as JSONRPCResponse);
+
+    expect(interceptor.getProtocolViolations()).toEqual([]);
+    expect(() => expectWellFormedTraffic(interceptor)).toThrow(/jsonrpc\.result-or-error/);
+  });
+});
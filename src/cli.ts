@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * mcp-conformance — run the conformance suite against an MCP server
+ *
+ * Usage:
+ *   mcp-conformance [options] <command> [args...]   server over stdio
+ *   mcp-conformance [options] <http(s)://url>       server over Streamable HTTP
+ *
+ * Options:
+ *   --only <ids>      Comma-separated check ids to run
+ *   --timeout <ms>    Milliseconds each request may take (default 5000)
+ *   --header <k: v>   HTTP header to send, repeatable
+ *   --json            Print the report as JSON
+ *
+ * Exits with 1 when a check fails, 2 on usage errors.
+ */
+
+import { runConformanceSuite, formatConformanceReport, ConformanceOptions } from './core/ConformanceSuite';
+import { StdioTransport } from './core/StdioTransport';
+import { StreamableHTTPTransport } from './core/StreamableHTTPTransport';
+import type { MCPTransport } from './types';
+
+const USAGE = 'Usage: mcp-conformance [--only <ids>] [--timeout <ms>] [--header <name: value>] [--json] <command> [args...] | <url>';
+
+interface CliArguments {
+  target: string[];
+  options: ConformanceOptions;
+  headers: Record<string, string>;
+  json: boolean;
+}
+
+export function parseArguments(argv: string[]): CliArguments {
+  const parsed: CliArguments = { target: [], options: {}, headers: {}, json: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+
+    if (arg === '--') {
+      parsed.target = argv.slice(i + 1);
+      break;
+    } else if (arg === '--json') {
+      parsed.json = true;
+    } else if (arg === '--only') {
+      parsed.options.only = value().split(',').map(id => id.trim()).filter(Boolean);
+    } else if (arg === '--timeout') {
+      const timeout = Number(value());
+      if (!Number.isFinite(timeout) || timeout <= 0) throw new Error('--timeout must be a positive number');
+      parsed.options.timeout = timeout;
+    } else if (arg === '--header') {
+      const header = value();
+      const colon = header.indexOf(':');
+      if (colon <= 0) throw new Error(`--header must look like "Name: value", got ${JSON.stringify(header)}`);
+      parsed.headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      // Everything from the server command on belongs to the server
+      parsed.target = argv.slice(i);
+      break;
+    }
+  }
+
+  if (parsed.target.length === 0) {
+    throw new Error('Missing server command or URL');
+  }
+  return parsed;
+}
+
+function createTransport({ target, headers }: CliArguments): MCPTransport {
+  const [first, ...rest] = target;
+  if (/^https?:\/\//.test(first)) {
+    return new StreamableHTTPTransport({ url: first, headers });
+  }
+  return new StdioTransport({ command: first, args: rest });
+}
+
+/**
+ * Run the CLI and resolve with its exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args: CliArguments;
+  try {
+    args = parseArguments(argv);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${USAGE}`);
+    return 2;
+  }
+
+  const report = await runConformanceSuite(createTransport(args), args.options);
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatConformanceReport(report));
+  return report.ok ? 0 : 1;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  );
+}
@@ -6,7 +6,15 @@
  */
 
 import { TransportInterceptor } from './TransportInterceptor';
-import { JSONRPCRequest, JSONRPCResponse } from '../types';
+import { validateTraffic } from './MessageValidator';
+import {
+  JSONRPCRequest,
+  JSONRPCResponse,
+  LoggingLevel,
+  LogMessage,
+  ParamsMatcher,
+  ProtocolViolation,
+} from '../types';
 
 /**
  * Assert that at least one request with the given method was recorded.
@@ -180,6 +188,132 @@ export function expectNoCapability(
   }
 }
 
+/**
+ * Assert that no protocol violations were recorded.
+ * Optionally restrict the check to rules starting with a prefix, e.g. "lifecycle.".
+ */
+export function expectNoProtocolViolations(
+  interceptor: TransportInterceptor,
+  rulePrefix?: string
+): void {
+  const violations = interceptor.getProtocolViolations(rulePrefix);
+  if (violations.length > 0) {
+    const details = violations.map(v => `[${v.rule}] ${v.reason}`);
+    throw new Error(
+      `Expected no protocol violations but found ${violations.length}: ${details.join('; ')}`
+    );
+  }
+}
+
+/**
+ * Assert that a protocol violation of the given rule was recorded.
+ */
+export function expectProtocolViolation(
+  interceptor: TransportInterceptor,
+  rule: string
+): ProtocolViolation {
+  const violations = interceptor.getProtocolViolations();
+  const match = violations.find(v => v.rule === rule);
+  if (!match) {
+    throw new Error(
+      `Expected a protocol violation "${rule}" but none was recorded. ` +
+      `Recorded violations: [${violations.map(v => v.rule).join(', ')}]`
+    );
+  }
+  return match;
+}
+
+/**
+ * Assert that all recorded traffic follows the JSON-RPC 2.0 and MCP envelope
+ * rules. With validation enabled the recorded violations are checked;
+ * otherwise the recorded traffic is validated now.
+ */
+export function expectWellFormedTraffic(interceptor: TransportInterceptor): void {
+  const issues = interceptor.isValidationEnabled()
+    ? interceptor.getProtocolViolations().filter(v => v.rule.startsWith('jsonrpc.') || v.rule.startsWith('mcp.'))
+    : validateTraffic(interceptor.getRecordedTraffic());
+
+  if (issues.length > 0) {
+    const details = issues.map(i => `[${i.rule}] ${i.reason} in ${JSON.stringify(i.message)}`);
+    throw new Error(`Expected well-formed traffic but found ${issues.length} problem(s): ${details.join('; ')}`);
+  }
+}
+
+/**
+ * Assert that no tools/call broke the tool's inputSchema or outputSchema.
+ * Each failure names the tool and the JSON pointer of the offending value.
+ */
+export function expectNoSchemaViolations(interceptor: TransportInterceptor): void {
+  const violations = interceptor.getProtocolViolations('schema.');
+  if (violations.length > 0) {
+    throw new Error(
+      `Expected no schema violations but found ${violations.length}:\n` +
+      violations.map(v => `  - ${v.reason}`).join('\n')
+    );
+  }
+}
+
+/**
+ * Assert that every required mock was used, that mocks limited with
+ * times(n) answered n requests, and that no request went unanswered.
+ * Catches tests that pass for the wrong reason.
+ */
+export function expectAllMocksUsed(interceptor: TransportInterceptor): void {
+  const { unused, underused, unmatched } = interceptor.verifyMocks();
+  const problems = [
+    ...unused.map(mock => `  - Mock for "${mock.method}"${describeMatcher(mock.params)} was never used`),
+    ...underused.map(mock =>
+      `  - Mock for "${mock.method}"${describeMatcher(mock.params)} was used ${mock.callCount} of ${mock.expectedCalls} times`
+    ),
+    ...unmatched.map(request =>
+      `  - Request "${request.method}" with params ${JSON.stringify(request.params)} matched no mock`
+    ),
+  ];
+  if (problems.length > 0) {
+    throw new Error(`Expected all mocks to be used but found ${problems.length} problem(s):\n${problems.join('\n')}`);
+  }
+}
+
+/**
+ * Assert that the server sent a log entry (notifications/message) matching
+ * every given field: `level` and `logger` exactly, `data` with a partial
+ * match, or against a RegExp when the logged data is a string.
+ */
+export function expectLog(
+  interceptor: TransportInterceptor,
+  expected: { level?: LoggingLevel; logger?: string; data?: unknown } = {}
+): LogMessage {
+  const entries = interceptor.getLogMessages();
+  const match = entries.find(entry =>
+    (expected.level === undefined || entry.level === expected.level) &&
+    (expected.logger === undefined || entry.logger === expected.logger) &&
+    (expected.data === undefined || (expected.data instanceof RegExp
+      ? typeof entry.data === 'string' && expected.data.test(entry.data)
+      : deepPartialMatch(entry.data, expected.data)))
+  );
+
+  if (!match) {
+    const wanted = [
+      expected.level !== undefined && `level "${expected.level}"`,
+      expected.logger !== undefined && `logger "${expected.logger}"`,
+      expected.data !== undefined && `data ${expected.data instanceof RegExp ? expected.data : JSON.stringify(expected.data)}`,
+    ].filter(Boolean);
+    const recorded = entries.map(entry =>
+      `  - [${entry.level}]${entry.logger !== undefined ? ` ${entry.logger}:` : ''} ${JSON.stringify(entry.data)}`
+    );
+    throw new Error(
+      `Expected a log entry${wanted.length > 0 ? ` with ${wanted.join(', ')}` : ''} but none matched. ` +
+      `Log entries:\n${recorded.length > 0 ? recorded.join('\n') : '  (none)'}`
+    );
+  }
+  return match;
+}
+
+function describeMatcher(params: ParamsMatcher | undefined): string {
+  if (params === undefined) return '';
+  return typeof params === 'function' ? ' with a params predicate' : ` with params ${JSON.stringify(params)}`;
+}
+
 /** Deep partial match: every key in `expected` must exist and match in `actual`. */
 function deepPartialMatch(actual: unknown, expected: unknown): boolean {
   if (expected === actual) return true;
@@ -0,0 +1,125 @@
+/**
+ * Cassette — record and replay of client → server traffic
+ *
+ * A cassette is built from the traffic recorded against a real server: each
+ * client request is paired with the response it got. Ids are renumbered from
+ * 1 and progress tokens (which the host derives from request ids) removed,
+ * so a cassette only changes when the conversation does.
+ *
+ * On replay, requests are matched by method and params. Identical requests
+ * get the recorded responses in order, and the last one once they run out.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Cassette, CassetteInteraction, JSONRPCRequest, JSONRPCResponse, RecordedMessage } from '../types';
+
+/**
+ * Pair the client requests in `traffic` with their responses. Requests that
+ * were never answered are left out.
+ */
+export function buildCassette(traffic: RecordedMessage[]): Cassette {
+  // Slots in the order requests were sent, filled in as responses arrive
+  const slots: Array<{ request: JSONRPCRequest; response?: JSONRPCResponse }> = [];
+  const pending = new Map<string | number, (typeof slots)[number]>();
+
+  for (const { message, direction } of traffic) {
+    if (direction === 'outgoing' && 'method' in message && 'id' in message) {
+      const slot = { request: message };
+      slots.push(slot);
+      pending.set(message.id, slot);
+    } else if (direction === 'incoming' && !('method' in message)) {
+      const slot = pending.get(message.id);
+      if (slot) {
+        slot.response = message;
+        pending.delete(message.id);
+      }
+    }
+  }
+
+  const answered = slots.filter((slot): slot is CassetteInteraction => slot.response !== undefined);
+  return {
+    version: 1,
+    interactions: answered.map(({ request, response }, i) => {
+      const normalized: JSONRPCRequest = { jsonrpc: '2.0', id: i + 1, method: request.method };
+      const params = scrubParams(request.params);
+      if (params !== undefined) normalized.params = params;
+      return { request: normalized, response: { ...response, id: i + 1 } };
+    }),
+  };
+}
+
+export async function readCassette(file: string): Promise<Cassette> {
+  const cassette = JSON.parse(await fs.promises.readFile(file, 'utf-8')) as Cassette;
+  if (cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Not a version 1 cassette: ${file}`);
+  }
+  return cassette;
+}
+
+export async function writeCassette(file: string, cassette: Cassette): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(cassette, null, 2) + '\n');
+}
+
+/**
+ * Answers requests from a cassette
+ */
+export class CassettePlayer {
+  readonly cassette: Cassette;
+  private strict: boolean;
+  private played: Set<CassetteInteraction> = new Set();
+
+  constructor(cassette: Cassette, strict = false) {
+    this.cassette = cassette;
+    this.strict = strict;
+  }
+
+  /**
+   * The recorded response to `request`, with the request's id. Undefined
+   * when nothing was recorded; in strict mode that throws instead.
+   */
+  answer(request: JSONRPCRequest): JSONRPCResponse | undefined {
+    const params = canonical(scrubParams(request.params));
+    const candidates = this.cassette.interactions.filter(
+      ({ request: recorded }) => recorded.method === request.method && canonical(recorded.params) === params
+    );
+
+    if (candidates.length === 0) {
+      if (this.strict) {
+        throw new Error(`No recorded interaction for ${request.method} with params ${params}`);
+      }
+      return undefined;
+    }
+
+    const next = candidates.find(candidate => !this.played.has(candidate)) ?? candidates[candidates.length - 1];
+    this.played.add(next);
+    return { ...next.response, id: request.id };
+  }
+}
+
+/**
+ * Params without the progress token, which changes with every run
+ */
+function scrubParams(params: unknown): unknown {
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    return params;
+  }
+  const { _meta, ...rest } = params as { _meta?: Record<string, unknown> };
+  if (_meta === undefined) {
+    return params;
+  }
+  const { progressToken: _token, ...meta } = _meta;
+  return Object.keys(meta).length > 0 ? { ...rest, _meta: meta } : rest;
+}
+
+/**
+ * JSON with object keys sorted, so equal values serialize equally
+ */
+export function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    typeof v === 'object' && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  ) ?? 'undefined';
+}
@@ -0,0 +1,437 @@
+/**
+ * ConformanceSuite — protocol checks against any MCP server
+ *
+ * runConformanceSuite() connects a MockMCPHost to a server through a
+ * transport and runs a catalog of checks, each tied to the section of the
+ * MCP specification it enforces. Checks of MUST requirements fail; checks of
+ * SHOULD requirements only warn. Checks that depend on a capability the
+ * server does not advertise are skipped.
+ */
+
+import { MockMCPHost } from './MockMCPHost';
+import { LATEST_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from './ProtocolVersion';
+import { expectWellFormedTraffic } from './AssertionHelpers';
+import { validateSchema } from './SchemaValidator';
+import type { JSONRPCResponse, MCPTool, MCPTransport } from '../types';
+
+export interface ConformanceContext {
+  host: MockMCPHost;
+  /** Result of the initialize request; set once 'lifecycle.initialize' passed */
+  initializeResult: {
+    protocolVersion: string;
+    capabilities: Record<string, unknown>;
+    serverInfo: { name: string; version: string };
+  } | null;
+  /** Milliseconds each request may take */
+  timeout: number;
+  /** Mark the running check as skipped */
+  skip(reason: string): never;
+}
+
+export interface ConformanceCheck {
+  /** Stable identifier, e.g. 'lifecycle.initialize' */
+  id: string;
+  title: string;
+  /** Whether the spec says MUST (failures fail the suite) or SHOULD (failures warn) */
+  level: 'must' | 'should';
+  /** Section of the specification, relative to its versioned root */
+  spec: string;
+  /** Throws to fail the check */
+  run(context: ConformanceContext): Promise<void>;
+}
+
+export interface ConformanceResult {
+  id: string;
+  title: string;
+  status: 'pass' | 'fail' | 'warn' | 'skip';
+  /** Why the check failed, warned or was skipped */
+  message?: string;
+  /** Link to the specification section */
+  specUrl: string;
+  durationMs: number;
+}
+
+export interface ConformanceReport {
+  server: { name: string; version: string } | null;
+  protocolVersion: string | null;
+  results: ConformanceResult[];
+  summary: { passed: number; failed: number; warned: number; skipped: number };
+  /** True when no check failed */
+  ok: boolean;
+}
+
+export interface ConformanceOptions {
+  /** Run only the checks with these ids. Default: every check */
+  only?: string[];
+  /** Milliseconds each request may take. Default: 5000 */
+  timeout?: number;
+  /** Extra checks to run after the built-in catalog */
+  checks?: ConformanceCheck[];
+}
+
+class SkipCheck extends Error {}
+
+const LIST_CAPABILITIES = [
+  { capability: 'tools', method: 'tools/list', key: 'tools' },
+  { capability: 'resources', method: 'resources/list', key: 'resources' },
+  { capability: 'prompts', method: 'prompts/list', key: 'prompts' },
+] as const;
+
+/**
+ * The built-in checks, in the order they run
+ */
+export const CONFORMANCE_CHECKS: ConformanceCheck[] = [
+  {
+    id: 'lifecycle.initialize',
+    title: 'initialize negotiates a supported protocol version',
+    level: 'must',
+    spec: 'basic/lifecycle#initialization',
+    async run(context) {
+      const response = await context.host.initialize(
+        { name: 'mcp-conformance', version: '1.0.0' },
+        { timeout: context.timeout }
+      );
+      const result = expectResult(response, 'initialize') as Partial<NonNullable<ConformanceContext['initializeResult']>>;
+
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion as string)) {
+        throw new Error(`Negotiated unknown protocol version ${JSON.stringify(result.protocolVersion)}`);
+      }
+      if (!isObject(result.capabilities)) {
+        throw new Error('"capabilities" must be an object');
+      }
+      if (!isObject(result.serverInfo) || typeof result.serverInfo.name !== 'string' || typeof result.serverInfo.version !== 'string') {
+        throw new Error('"serverInfo" must have a string name and version');
+      }
+      context.initializeResult = result as NonNullable<ConformanceContext['initializeResult']>;
+    },
+  },
+  {
+    id: 'ping',
+    title: 'ping is answered with an empty result',
+    level: 'must',
+    spec: 'basic/utilities/ping',
+    async run(context) {
+      const result = expectResult(await context.host.sendRequest('ping', undefined, { timeout: context.timeout }), 'ping');
+      if (Object.keys(result).length > 0) {
+        throw new Error(`Expected an empty result, got ${JSON.stringify(result)}`);
+      }
+    },
+  },
+  {
+    id: 'capabilities.honesty',
+    title: 'Advertised capabilities work and unadvertised ones are refused',
+    level: 'must',
+    spec: 'basic/lifecycle#capability-negotiation',
+    async run(context) {
+      const capabilities = initialized(context).capabilities;
+      const problems: string[] = [];
+
+      for (const { capability, method } of LIST_CAPABILITIES) {
+        const response = await context.host.sendRequest(method, undefined, { timeout: context.timeout });
+        if (capability in capabilities && response.error) {
+          problems.push(`advertises ${capability} but ${method} failed: ${response.error.message}`);
+        } else if (!(capability in capabilities) && response.result) {
+          problems.push(`answers ${method} without advertising ${capability}`);
+        }
+      }
+
+      if (problems.length > 0) {
+        throw new Error(`Server ${problems.join('; ')}`);
+      }
+    },
+  },
+  {
+    id: 'pagination.cursors',
+    title: 'List results paginate with opaque, non-repeating cursors',
+    level: 'must',
+    spec: 'server/utilities/pagination',
+    async run(context) {
+      const advertised = advertisedLists(context);
+      for (const { method, key } of advertised) {
+        const response = await context.host.sendRequest(method, undefined, { timeout: context.timeout });
+        const result = expectResult(response, method);
+        if (!Array.isArray(result[key])) {
+          throw new Error(`${method} result must have a "${key}" array`);
+        }
+        if (result.nextCursor !== undefined && typeof result.nextCursor !== 'string') {
+          throw new Error(`${method} "nextCursor" must be a string`);
+        }
+      }
+
+      // listAll* follow every cursor and throw if one repeats
+      const host = context.host;
+      const lists: Record<string, () => Promise<unknown[]>> = {
+        'tools/list': () => host.listAllTools(),
+        'resources/list': () => host.listAllResources(),
+        'prompts/list': () => host.listAllPrompts(),
+      };
+      for (const { method } of advertised) {
+        await lists[method]();
+      }
+    },
+  },
+  {
+    id: 'pagination.invalid-cursor',
+    title: 'An invalid cursor is rejected with -32602',
+    level: 'should',
+    spec: 'server/utilities/pagination#error-handling',
+    async run(context) {
+      const [list] = advertisedLists(context);
+      const response = await context.host.sendRequest(
+        list.method,
+        { cursor: 'mcp-conformance-invalid-cursor' },
+        { timeout: context.timeout }
+      );
+      expectErrorCode(response, -32602, `${list.method} with an invalid cursor`);
+    },
+  },
+  {
+    id: 'errors.unknown-method',
+    title: 'Unknown methods are rejected with -32601',
+    level: 'must',
+    spec: 'basic#responses',
+    async run(context) {
+      const response = await context.host.sendRequest('mcp-conformance/unknown-method', {}, { timeout: context.timeout });
+      expectErrorCode(response, -32601, 'An unknown method');
+    },
+  },
+  {
+    id: 'errors.unknown-tool',
+    title: 'Calling an unknown tool is rejected with -32602',
+    level: 'should',
+    spec: 'server/tools#error-handling',
+    async run(context) {
+      if (!('tools' in initialized(context).capabilities)) {
+        context.skip('Server does not advertise tools');
+      }
+      const response = await context.host.sendRequest(
+        'tools/call',
+        { name: 'mcp-conformance-unknown-tool', arguments: {} },
+        { timeout: context.timeout }
+      );
+      expectErrorCode(response, -32602, 'Calling an unknown tool');
+    },
+  },
+  {
+    id: 'cancellation.responsive',
+    title: 'The server stays responsive after a cancelled request',
+    level: 'must',
+    spec: 'basic/utilities/cancellation',
+    async run(context) {
+      const [list] = advertisedLists(context);
+      const controller = new AbortController();
+      let answered = false;
+      const pending = context.host
+        .sendRequest(list.method, undefined, { signal: controller.signal })
+        .then(() => (answered = true), () => {});
+      // Cancel once the request has reached the server, not before it is sent
+      await new Promise(resolve => setImmediate(resolve));
+      controller.abort('conformance check');
+      await pending;
+
+      expectResult(await context.host.sendRequest('ping', undefined, { timeout: context.timeout }), 'ping after cancellation');
+      if (answered) {
+        context.skip(`${list.method} was answered before it could be cancelled`);
+      }
+    },
+  },
+  {
+    id: 'tools.schema',
+    title: 'tools/list advertises valid tool definitions',
+    level: 'must',
+    spec: 'server/tools#tool',
+    async run(context) {
+      if (!('tools' in initialized(context).capabilities)) {
+        context.skip('Server does not advertise tools');
+      }
+      const tools = await context.host.listAllTools();
+      const problems: string[] = [];
+      const names = new Set<string>();
+
+      for (const tool of tools as Array<Partial<MCPTool>>) {
+        const name = typeof tool.name === 'string' && tool.name !== '' ? tool.name : null;
+        if (!name) {
+          problems.push('a tool has no name');
+          continue;
+        }
+        if (names.has(name)) problems.push(`"${name}" is listed twice`);
+        names.add(name);
+
+        for (const key of ['inputSchema', 'outputSchema'] as const) {
+          const schema = tool[key];
+          if (schema === undefined && key === 'outputSchema') continue;
+          if (!isObject(schema) || schema.type !== 'object') {
+            problems.push(`"${name}" ${key} must be a JSON Schema of type "object"`);
+            continue;
+          }
+          for (const error of validateSchema(schema, {}).filter(e => e.keyword === '$ref')) {
+            problems.push(`"${name}" ${key}: ${error.message}`);
+          }
+        }
+      }
+
+      if (problems.length > 0) {
+        throw new Error(`Invalid tool definitions: ${problems.join('; ')}`);
+      }
+    },
+  },
+  {
+    id: 'jsonrpc.envelope',
+    title: 'Every message is well-formed JSON-RPC 2.0',
+    level: 'must',
+    spec: 'basic#messages',
+    async run(context) {
+      expectWellFormedTraffic(context.host.getInterceptor());
+    },
+  },
+];
+
+/**
+ * Run the conformance checks against the server behind `transport`. The
+ * transport is closed afterwards.
+ *
+ * @example
+ * const report = await runConformanceSuite(new StdioTransport({ command: 'node', args: ['server.js'] }));
+ * console.log(formatConformanceReport(report));
+ */
+export async function runConformanceSuite(
+  transport: MCPTransport,
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const host = new MockMCPHost({ transport, validateMessages: true });
+  const context: ConformanceContext = {
+    host,
+    initializeResult: null,
+    timeout: options.timeout ?? 5000,
+    skip(reason: string): never {
+      throw new SkipCheck(reason);
+    },
+  };
+
+  const checks = [...CONFORMANCE_CHECKS, ...(options.checks ?? [])]
+    .filter(check => !options.only || options.only.includes(check.id));
+  const results: ConformanceResult[] = [];
+
+  try {
+    for (const check of checks) {
+      results.push(await runCheck(check, context));
+    }
+  } finally {
+    // A transport that cannot close must not hold the report back
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      host.cleanup().catch(() => undefined),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, context.timeout);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  const count = (status: ConformanceResult['status']) => results.filter(r => r.status === status).length;
+  const summary = { passed: count('pass'), failed: count('fail'), warned: count('warn'), skipped: count('skip') };
+  return {
+    server: context.initializeResult?.serverInfo ?? null,
+    protocolVersion: context.initializeResult?.protocolVersion ?? null,
+    results,
+    summary,
+    ok: summary.failed === 0,
+  };
+}
+
+/**
+ * Render a report as text, one line per check
+ */
+export function formatConformanceReport(report: ConformanceReport): string {
+  const marks = { pass: '✓', fail: '✗', warn: '!', skip: '-' };
+  const server = report.server ? `${report.server.name} ${report.server.version}` : 'unknown server';
+  const lines = [`MCP conformance: ${server} (protocol ${report.protocolVersion ?? 'not negotiated'})`, ''];
+
+  for (const result of report.results) {
+    lines.push(`${marks[result.status]} ${result.id}: ${result.title}`);
+    if (result.message) {
+      lines.push(`    ${result.message}`);
+    }
+    if (result.status === 'fail' || result.status === 'warn') {
+      lines.push(`    ${result.specUrl}`);
+    }
+  }
+
+  const { passed, failed, warned, skipped } = report.summary;
+  lines.push('', `${passed} passed, ${failed} failed, ${warned} warnings, ${skipped} skipped`);
+  return lines.join('\n');
+}
+
+async function runCheck(check: ConformanceCheck, context: ConformanceContext): Promise<ConformanceResult> {
+  const version = context.initializeResult?.protocolVersion ?? LATEST_PROTOCOL_VERSION;
+  const started = Date.now();
+  const result = (status: ConformanceResult['status'], message?: string): ConformanceResult => {
+    const entry: ConformanceResult = {
+      id: check.id,
+      title: check.title,
+      status,
+      specUrl: `https://modelcontextprotocol.io/specification/${version}/${check.spec}`,
+      durationMs: Date.now() - started,
+    };
+    if (message !== undefined) entry.message = message;
+    return entry;
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    // Allow for the few requests a check makes
+    timer = setTimeout(() => reject(new Error(`Timed out after ${context.timeout * 4}ms`)), context.timeout * 4);
+  });
+
+  try {
+    await Promise.race([check.run(context), timedOut]);
+    return result('pass');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof SkipCheck) {
+      return result('skip', message);
+    }
+    return result(check.level === 'must' ? 'fail' : 'warn', message);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function initialized(context: ConformanceContext): NonNullable<ConformanceContext['initializeResult']> {
+  if (!context.initializeResult) {
+    context.skip('The server could not be initialized');
+  }
+  return context.initializeResult;
+}
+
+function advertisedLists(context: ConformanceContext) {
+  const capabilities = initialized(context).capabilities;
+  const lists = LIST_CAPABILITIES.filter(({ capability }) => capability in capabilities);
+  if (lists.length === 0) {
+    context.skip('Server advertises no list capabilities');
+  }
+  return lists;
+}
+
+function expectResult(response: JSONRPCResponse, what: string): Record<string, unknown> {
+  if (response.error) {
+    throw new Error(`${what} failed: [${response.error.code}] ${response.error.message}`);
+  }
+  if (!isObject(response.result)) {
+    throw new Error(`${what} returned no result object`);
+  }
+  return response.result;
+}
+
+function expectErrorCode(response: JSONRPCResponse, code: number, what: string): void {
+  if (!response.error) {
+    throw new Error(`${what} succeeded; expected error ${code}`);
+  }
+  if (response.error.code !== code) {
+    throw new Error(`${what} failed with ${response.error.code}; expected ${code}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,251 @@
+/**
+ * Fuzzer — schema-driven fuzzing of tool arguments
+ *
+ * fuzzTool() reads a tool's inputSchema from tools/list and calls the tool
+ * with generated argument sets: valid ones, valid ones at the boundaries,
+ * and ones that break a single schema rule. It reports:
+ * - 'crash': an internal error (-32603), or the connection failing
+ * - 'hang': no response within the timeout
+ * - 'malformed-error' / 'malformed-result': responses that do not follow
+ *   JSON-RPC 2.0 or the CallToolResult shape
+ * - 'accepted-invalid': arguments violating the schema were not rejected
+ *
+ * Each failing case is shrunk to a smaller input that fails the same way,
+ * and carries the seed that regenerates it.
+ */
+
+import type { JSONRPCResponse, JSONSchema, MCPTool } from '../types';
+import type { MockMCPHost } from './MockMCPHost';
+import { SeededRandom } from './SeededRandom';
+import { generateValue, generateBoundaryValue, generateInvalidValue } from './SchemaGenerator';
+import { validateSchema } from './SchemaValidator';
+import { MessageValidator } from './MessageValidator';
+
+export interface FuzzOptions {
+  /** Argument sets to try. Default: 100 */
+  runs?: number;
+  /** Seed for the whole run. Default: random, and reported so the run can be repeated */
+  seed?: number;
+  /** Run only the case with this seed, as reported on a failure */
+  replay?: number;
+  /** Milliseconds before a call counts as hung. Default: 2000 */
+  timeout?: number;
+  /** Calls spent shrinking each failure. Default: 50 */
+  shrinkBudget?: number;
+}
+
+export type FuzzFailureKind = 'crash' | 'hang' | 'malformed-error' | 'malformed-result' | 'accepted-invalid';
+
+export interface FuzzFailure {
+  kind: FuzzFailureKind;
+  message: string;
+  /** Pass as `replay` to run this case again */
+  seed: number;
+  /** What the generator aimed for */
+  input: 'valid' | 'boundary' | 'invalid';
+  /** The generated arguments */
+  arguments: unknown;
+  /** The smallest arguments found that fail the same way */
+  minimal: unknown;
+}
+
+export interface FuzzReport {
+  tool: string;
+  seed: number;
+  /** Cases run; fewer than requested when the connection was lost */
+  runs: number;
+  failures: FuzzFailure[];
+  /** True when no case failed */
+  ok: boolean;
+}
+
+interface Outcome {
+  kind: FuzzFailureKind;
+  message: string;
+}
+
+/**
+ * Fuzz a tool's arguments
+ *
+ * @example
+ * const report = await fuzzTool(host, 'search', { runs: 200, seed: 42 });
+ * expect(report.failures).toEqual([]);
+ */
+export async function fuzzTool(host: MockMCPHost, toolName: string, options: FuzzOptions = {}): Promise<FuzzReport> {
+  const { runs = 100, timeout = 2000, shrinkBudget = 50 } = options;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+
+  const tool = (await host.listAllTools()).find((candidate: MCPTool) => candidate.name === toolName);
+  if (!tool) {
+    throw new Error(`Tool "${toolName}" is not listed by tools/list`);
+  }
+  const schema = tool.inputSchema;
+
+  const master = new SeededRandom(seed);
+  const caseSeeds = options.replay !== undefined
+    ? [options.replay]
+    : Array.from({ length: runs }, () => master.int(0, 2 ** 32 - 1));
+
+  const failures: FuzzFailure[] = [];
+  const seen = new Set<string>();
+  let completed = 0;
+
+  for (const caseSeed of caseSeeds) {
+    const { input, args } = generateCase(schema, caseSeed);
+    const outcome = await callOnce(host, toolName, schema, args, timeout);
+    completed++;
+    if (!outcome) {
+      continue;
+    }
+
+    const key = `${outcome.kind}:${outcome.message}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    // A lost connection fails every later call, so stop instead of shrinking
+    const disconnected = outcome.kind === 'crash' && outcome.message.startsWith('Connection failed');
+    const budget = disconnected ? 0 : outcome.kind === 'hang' ? Math.min(shrinkBudget, 5) : shrinkBudget;
+    const minimal = await shrink(args, budget, async (candidate) =>
+      (await callOnce(host, toolName, schema, candidate, timeout))?.kind === outcome.kind
+    );
+
+    failures.push({ ...outcome, seed: caseSeed, input, arguments: args, minimal });
+    if (disconnected) {
+      break;
+    }
+  }
+
+  return { tool: toolName, seed, runs: completed, failures, ok: failures.length === 0 };
+}
+
+/**
+ * Regenerate the arguments of one case from its seed
+ */
+function generateCase(schema: JSONSchema, caseSeed: number): { input: FuzzFailure['input']; args: unknown } {
+  const random = new SeededRandom(caseSeed);
+  const input = random.pick(['valid', 'boundary', 'invalid'] as const);
+  if (input === 'boundary') {
+    return { input, args: generateBoundaryValue(schema, random) };
+  }
+  if (input === 'invalid') {
+    const args = generateInvalidValue(schema, random);
+    if (args !== undefined) {
+      return { input, args };
+    }
+  }
+  return { input: 'valid', args: generateValue(schema, random) };
+}
+
+async function callOnce(
+  host: MockMCPHost,
+  toolName: string,
+  schema: JSONSchema,
+  args: unknown,
+  timeout: number
+): Promise<Outcome | null> {
+  const params = { name: toolName, arguments: args };
+  let response: JSONRPCResponse;
+  try {
+    // Invalid arguments are the point here, not schema violations of the session
+    response = await host.sendRequest('tools/call', params, { timeout, validateSchemas: false });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.includes('timed out')
+      ? { kind: 'hang', message: `No response within ${timeout}ms` }
+      : { kind: 'crash', message: `Connection failed: ${message}` };
+  }
+
+  // Judge the response on its own, apart from the rest of the session
+  const validator = new MessageValidator();
+  validator.validate({ jsonrpc: '2.0', id: response.id, method: 'tools/call', params }, 'outgoing');
+  const issues = validator.validate(response, 'incoming');
+  if (issues.length > 0) {
+    return {
+      kind: 'error' in response ? 'malformed-error' : 'malformed-result',
+      message: issues.map(issue => issue.reason).join('; '),
+    };
+  }
+
+  if (response.error) {
+    return response.error.code === -32603
+      ? { kind: 'crash', message: `Internal error: ${response.error.message}` }
+      : null;
+  }
+
+  const result = response.result as { content?: unknown; isError?: unknown };
+  if (!Array.isArray(result.content) || (result.isError !== undefined && typeof result.isError !== 'boolean')) {
+    return { kind: 'malformed-result', message: 'Result must have a "content" array and an optional boolean "isError"' };
+  }
+
+  const [violation] = validateSchema(schema, args);
+  if (violation && result.isError !== true) {
+    return {
+      kind: 'accepted-invalid',
+      message: `Accepted arguments violating the input schema at ${violation.path || '(root)'}: ${violation.keyword}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Greedily replace `value` with smaller candidates that still fail
+ */
+async function shrink(value: unknown, budget: number, stillFails: (candidate: unknown) => Promise<boolean>): Promise<unknown> {
+  let current = value;
+  let calls = 0;
+  let improved = true;
+
+  while (improved && calls < budget) {
+    improved = false;
+    for (const candidate of shrinkCandidates(current)) {
+      if (calls++ >= budget) break;
+      if (await stillFails(candidate)) {
+        current = candidate;
+        improved = true;
+        break;
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * Smaller variants of a value, simplest first
+ */
+function* shrinkCandidates(value: unknown): Generator<unknown> {
+  if (Array.isArray(value)) {
+    if (value.length > 0) yield [];
+    if (value.length > 1) yield value.slice(0, Math.floor(value.length / 2));
+    for (let i = 0; i < value.length; i++) {
+      yield [...value.slice(0, i), ...value.slice(i + 1)];
+    }
+    for (let i = 0; i < value.length; i++) {
+      for (const item of shrinkCandidates(value[i])) {
+        yield value.map((original, j) => (j === i ? item : original));
+      }
+    }
+  } else if (typeof value === 'object' && value !== null) {
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(record)) {
+      const { [key]: _removed, ...rest } = record;
+      yield rest;
+    }
+    for (const key of Object.keys(record)) {
+      for (const item of shrinkCandidates(record[key])) {
+        yield { ...record, [key]: item };
+      }
+    }
+  } else if (typeof value === 'string') {
+    if (value.length > 0) yield '';
+    if (value.length > 1) yield value.slice(0, Math.floor(value.length / 2));
+  } else if (typeof value === 'number') {
+    if (value !== 0) yield 0;
+    if (!Number.isInteger(value)) yield Math.trunc(value);
+    if (Math.abs(value) > 1) yield Math.trunc(value / 2);
+    if (Math.abs(value) >= 1) yield value - Math.sign(value);
+  } else if (value === true) {
+    yield false;
+  }
+}
@@ -17,6 +17,7 @@ export interface HostProfile {
     tools?: { listChanged?: boolean };
     resources?: { subscribe?: boolean; listChanged?: boolean };
     prompts?: { listChanged?: boolean };
+    logging?: Record<string, unknown>;
   };
   theme: {
     light: Record<string, string>;
@@ -42,6 +43,7 @@ export const ClaudeProfile: HostProfile = {
     tools: { listChanged: true },
     resources: { subscribe: true, listChanged: true },
     prompts: { listChanged: true },
+    logging: {},
   },
   theme: {
     light: {
@@ -82,6 +84,7 @@ export const VSCodeProfile: HostProfile = {
     tools: { listChanged: true },
     resources: { subscribe: false, listChanged: true },
     prompts: { listChanged: false },
+    logging: {},
   },
   theme: {
     light: {
@@ -119,6 +122,7 @@ export const GenericProfile: HostProfile = {
     tools: { listChanged: true },
     resources: { subscribe: true, listChanged: true },
     prompts: { listChanged: true },
+    logging: {},
   },
   theme: {
     light: {
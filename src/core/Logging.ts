@@ -0,0 +1,32 @@
+/**
+ * Logging — severity levels of the MCP logging utility
+ *
+ * Servers send log entries as notifications/message. Clients pick the
+ * minimum level they want with logging/setLevel; the levels are those of
+ * syslog (RFC 5424), from least to most severe.
+ */
+
+import type { LoggingLevel } from '../types';
+
+/** Log levels, from least to most severe */
+export const LOGGING_LEVELS: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+export function isLoggingLevel(value: unknown): value is LoggingLevel {
+  return LOGGING_LEVELS.includes(value as LoggingLevel);
+}
+
+/**
+ * Whether `level` is as severe as `minimum` or more
+ */
+export function isAtLeast(level: LoggingLevel, minimum: LoggingLevel): boolean {
+  return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(minimum);
+}
@@ -0,0 +1,170 @@
+/**
+ * Manifest — a server's tools, resources and prompts, saved for a stand-in
+ *
+ * readManifest() accepts any of these captures, saved as JSON:
+ * - the list results merged: { tools, resources, resourceTemplates, prompts }
+ * - the list results by method: { "tools/list": { tools }, "prompts/list": … }
+ * - a cassette recorded against the server (see insertCassette())
+ *
+ * The synthesize functions produce plausible responses for listed items,
+ * driven only by what the listing says about them: a tool's outputSchema, a
+ * resource's mime type, a prompt's arguments.
+ */
+
+import * as fs from 'fs';
+import type {
+  CallToolResult,
+  MCPManifest,
+  MCPPrompt,
+  MCPTool,
+  PromptMessage,
+  ResourceBody,
+} from '../types';
+import { SeededRandom } from './SeededRandom';
+import { generateValue } from './SchemaGenerator';
+import { canonical } from './Cassette';
+
+/** List methods and the key of the items in their results */
+const LIST_METHODS: Record<string, keyof MCPManifest> = {
+  'tools/list': 'tools',
+  'resources/list': 'resources',
+  'resources/templates/list': 'resourceTemplates',
+  'prompts/list': 'prompts',
+};
+
+/** The property identifying items of each kind */
+const ITEM_KEYS: Record<keyof MCPManifest, string> = {
+  tools: 'name',
+  resources: 'uri',
+  resourceTemplates: 'uriTemplate',
+  prompts: 'name',
+};
+
+/** A 1×1 transparent PNG */
+const PLACEHOLDER_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+export async function readManifest(file: string): Promise<MCPManifest> {
+  const data = JSON.parse(await fs.promises.readFile(file, 'utf-8')) as unknown;
+  const manifest = parseManifest(data);
+  if (Object.values(manifest).every(items => items.length === 0)) {
+    throw new Error(`No tools, resources or prompts in manifest ${file}`);
+  }
+  return manifest;
+}
+
+/**
+ * Collect the listed items from a capture. Items listed twice (across pages
+ * or recordings) are kept once, as last listed.
+ */
+export function parseManifest(data: unknown): MCPManifest {
+  const record = isRecord(data) ? data : {};
+
+  let results: unknown[];
+  if (Array.isArray(record.interactions)) {
+    results = (record.interactions as Array<{ request?: { method?: string }; response?: { result?: unknown } }>)
+      .filter(({ request }) => request?.method !== undefined && request.method in LIST_METHODS)
+      .map(({ response }) => response?.result);
+  } else if (Object.keys(LIST_METHODS).some(method => method in record)) {
+    results = Object.keys(LIST_METHODS).map(method => record[method]);
+  } else {
+    results = [record];
+  }
+
+  const collected = new Map<keyof MCPManifest, Map<unknown, unknown>>();
+  for (const result of results.filter(isRecord)) {
+    for (const kind of Object.values(LIST_METHODS)) {
+      const items = result[kind];
+      if (!Array.isArray(items)) continue;
+      const byKey = collected.get(kind) ?? new Map<unknown, unknown>();
+      for (const item of items.filter(isRecord)) {
+        byKey.set(item[ITEM_KEYS[kind]], item);
+      }
+      collected.set(kind, byKey);
+    }
+  }
+
+  const itemsOf = <K extends keyof MCPManifest>(kind: K) =>
+    Array.from(collected.get(kind)?.values() ?? []) as MCPManifest[K];
+  return {
+    tools: itemsOf('tools'),
+    resources: itemsOf('resources'),
+    resourceTemplates: itemsOf('resourceTemplates'),
+    prompts: itemsOf('prompts'),
+  };
+}
+
+/**
+ * A result for a tools/call. With an outputSchema, structuredContent is
+ * generated from it and serialized into the text content; the same
+ * arguments always get the same result.
+ */
+export function synthesizeToolResult(tool: MCPTool, args: Record<string, unknown>, seed = 0): CallToolResult {
+  if (!tool.outputSchema) {
+    return { content: [{ type: 'text', text: `Result of ${tool.title ?? tool.name}` }] };
+  }
+  const random = new SeededRandom(seed ^ hash(`${tool.name}:${canonical(args)}`));
+  const structuredContent = generateValue(tool.outputSchema, random) as Record<string, unknown>;
+  return { content: [{ type: 'text', text: JSON.stringify(structuredContent) }], structuredContent };
+}
+
+/**
+ * Contents for a resource, shaped by its mime type
+ */
+export function synthesizeResource(uri: string, name: string, mimeType?: string): ResourceBody {
+  const type = (mimeType ?? 'text/plain').split(';')[0].trim().toLowerCase();
+  const body = (content: { text: string } | { blob: string }): ResourceBody =>
+    (mimeType === undefined ? content : { mimeType, ...content }) as ResourceBody;
+
+  if (type === 'text/html') {
+    return body({
+      text: `<!DOCTYPE html>\n<html>\n<head><title>${escapeHtml(name)}</title></head>\n<body><h1>${escapeHtml(name)}</h1></body>\n</html>\n`,
+    });
+  }
+  if (type === 'text/markdown') {
+    return body({ text: `# ${name}\n` });
+  }
+  if (type === 'application/json' || type.endsWith('+json')) {
+    return body({ text: JSON.stringify({ uri, name }) });
+  }
+  if (type === 'image/png') {
+    return body({ blob: PLACEHOLDER_PNG });
+  }
+  if (type.startsWith('text/') || type.endsWith('+xml') || type === 'application/xml') {
+    return body({ text: name });
+  }
+  return body({ blob: Buffer.from(name).toString('base64') });
+}
+
+/**
+ * Messages for a prompts/get: one user message with the prompt's
+ * description and the arguments it was given
+ */
+export function synthesizePrompt(prompt: MCPPrompt, args: Record<string, string>): PromptMessage[] {
+  const lines = [prompt.description ?? prompt.title ?? prompt.name];
+  for (const argument of prompt.arguments ?? []) {
+    if (args[argument.name] !== undefined) {
+      lines.push(`${argument.name}: ${args[argument.name]}`);
+    }
+  }
+  return [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,209 @@
+/**
+ * MessageValidator — JSON-RPC 2.0 and MCP envelope checks
+ *
+ * Validates messages one at a time as they are intercepted. Some rules need
+ * the conversation so far (reused ids, responses to unknown requests), so a
+ * validator keeps state per direction: requests sent in one direction are
+ * answered by responses travelling in the other.
+ *
+ * Rules are named `jsonrpc.*` for JSON-RPC 2.0 and `mcp.*` for the stricter
+ * envelope MCP layers on top of it.
+ */
+
+import type { MessageDirection, RecordedMessage } from '../types';
+
+export interface MessageIssue {
+  rule: string;
+  reason: string;
+}
+
+type Id = string | number;
+
+export class MessageValidator {
+  /** Request ids seen per sending direction */
+  private seenIds: Record<MessageDirection, Set<Id>> = { outgoing: new Set(), incoming: new Set() };
+  /** Requests awaiting a response, keyed by the direction they were sent in */
+  private pending: Record<MessageDirection, Set<Id>> = { outgoing: new Set(), incoming: new Set() };
+  /** Requests already answered, keyed by the direction they were sent in */
+  private answered: Record<MessageDirection, Set<Id>> = { outgoing: new Set(), incoming: new Set() };
+
+  /**
+   * Check one message travelling in `direction`
+   * @returns The problems found; empty if the message is well formed
+   */
+  validate(message: unknown, direction: MessageDirection): MessageIssue[] {
+    const issues: MessageIssue[] = [];
+    const issue = (rule: string, reason: string) => issues.push({ rule, reason });
+
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      issue('jsonrpc.shape', 'Message must be a JSON object');
+      return issues;
+    }
+
+    const msg = message as Record<string, unknown>;
+    if (msg.jsonrpc !== '2.0') {
+      issue('jsonrpc.version', `"jsonrpc" must be "2.0", got ${describe(msg.jsonrpc)}`);
+    }
+
+    if ('method' in msg) {
+      this.validateRequestOrNotification(msg, direction, issue);
+    } else if ('id' in msg) {
+      this.validateResponse(msg, direction, issue);
+    } else {
+      issue('jsonrpc.shape', 'Message is neither a request, a notification nor a response');
+    }
+
+    return issues;
+  }
+
+  /**
+   * Forget the conversation so far
+   */
+  reset(): void {
+    for (const direction of ['outgoing', 'incoming'] as const) {
+      this.seenIds[direction].clear();
+      this.pending[direction].clear();
+      this.answered[direction].clear();
+    }
+  }
+
+  // ── Private ──────────────────────────────────────────────────
+
+  private validateRequestOrNotification(
+    msg: Record<string, unknown>,
+    direction: MessageDirection,
+    issue: (rule: string, reason: string) => void
+  ): void {
+    if (typeof msg.method !== 'string' || msg.method === '') {
+      issue('jsonrpc.method', `"method" must be a non-empty string, got ${describe(msg.method)}`);
+    }
+
+    if (msg.params !== undefined) {
+      if (typeof msg.params !== 'object' || msg.params === null) {
+        issue('jsonrpc.params', `"params" must be an object or array, got ${describe(msg.params)}`);
+      } else if (Array.isArray(msg.params)) {
+        issue('mcp.params', 'MCP "params" must be an object, not an array');
+      } else {
+        validateMeta((msg.params as Record<string, unknown>)._meta, 'params', issue);
+      }
+    }
+
+    if ('result' in msg || 'error' in msg) {
+      issue('jsonrpc.shape', 'A request or notification must not carry "result" or "error"');
+    }
+
+    // Requests carry an id; notifications do not
+    if (!('id' in msg)) {
+      return;
+    }
+
+    const id = msg.id;
+    if (id === null) {
+      issue('mcp.id-null', 'Request id must not be null');
+      return;
+    }
+    if (!isValidId(id)) {
+      issue('mcp.id-type', `Request id must be a string or an integer, got ${describe(id)}`);
+      return;
+    }
+
+    if (this.seenIds[direction].has(id)) {
+      issue('mcp.id-reused', `Request id ${JSON.stringify(id)} was already used in this session`);
+    }
+    this.seenIds[direction].add(id);
+    this.pending[direction].add(id);
+  }
+
+  private validateResponse(
+    msg: Record<string, unknown>,
+    direction: MessageDirection,
+    issue: (rule: string, reason: string) => void
+  ): void {
+    const hasResult = 'result' in msg;
+    const hasError = 'error' in msg;
+    if (hasResult && hasError) {
+      issue('jsonrpc.result-and-error', 'A response must not contain both "result" and "error"');
+    } else if (!hasResult && !hasError) {
+      issue('jsonrpc.result-or-error', 'A response must contain either "result" or "error"');
+    }
+
+    if (hasResult) {
+      if (typeof msg.result !== 'object' || msg.result === null || Array.isArray(msg.result)) {
+        issue('mcp.result', `MCP "result" must be an object, got ${describe(msg.result)}`);
+      } else {
+        validateMeta((msg.result as Record<string, unknown>)._meta, 'result', issue);
+      }
+    }
+
+    if (hasError) {
+      const error = msg.error;
+      if (typeof error !== 'object' || error === null || Array.isArray(error)) {
+        issue('jsonrpc.error', `"error" must be an object, got ${describe(error)}`);
+      } else {
+        const { code, message } = error as Record<string, unknown>;
+        if (typeof code !== 'number' || !Number.isInteger(code)) {
+          issue('jsonrpc.error-code', `Error code must be an integer, got ${describe(code)}`);
+        }
+        if (typeof message !== 'string') {
+          issue('jsonrpc.error-message', `Error message must be a string, got ${describe(message)}`);
+        }
+      }
+    }
+
+    const id = msg.id;
+    if (id === null) {
+      // Only allowed when the request id could not be determined
+      if (!hasError) {
+        issue('jsonrpc.response-id', 'Only error responses may have a null id');
+      }
+      return;
+    }
+    if (!isValidId(id)) {
+      issue('mcp.id-type', `Response id must be a string or an integer, got ${describe(id)}`);
+      return;
+    }
+
+    const requestDirection: MessageDirection = direction === 'incoming' ? 'outgoing' : 'incoming';
+    if (this.pending[requestDirection].delete(id)) {
+      this.answered[requestDirection].add(id);
+    } else if (this.answered[requestDirection].has(id)) {
+      issue('jsonrpc.duplicate-response', `Request ${JSON.stringify(id)} was already answered`);
+    } else {
+      issue('jsonrpc.response-id', `Response id ${JSON.stringify(id)} does not match any request`);
+    }
+  }
+}
+
+/**
+ * Validate recorded traffic in order with a fresh validator
+ */
+export function validateTraffic(traffic: RecordedMessage[]): Array<MessageIssue & { message: unknown }> {
+  const validator = new MessageValidator();
+  return traffic.flatMap(({ message, direction }) =>
+    validator.validate(message, direction).map(issue => ({ ...issue, message }))
+  );
+}
+
+function validateMeta(meta: unknown, where: string, issue: (rule: string, reason: string) => void): void {
+  if (meta === undefined) {
+    return;
+  }
+  if (typeof meta !== 'object' || meta === null || Array.isArray(meta)) {
+    issue('mcp.meta', `"${where}._meta" must be an object, got ${describe(meta)}`);
+    return;
+  }
+  const token = (meta as Record<string, unknown>).progressToken;
+  if (token !== undefined && !isValidId(token)) {
+    issue('mcp.progress-token', `Progress token must be a string or an integer, got ${describe(token)}`);
+  }
+}
+
+function isValidId(id: unknown): id is Id {
+  return typeof id === 'string' || (typeof id === 'number' && Number.isInteger(id));
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'an array';
+  return JSON.stringify(value);
+}
@@ -1,6 +1,50 @@
 import { TransportInterceptor } from './TransportInterceptor';
-import { MockMCPHostConfig, MCPCapabilities, JSONRPCRequest, JSONRPCResponse } from '../types';
+import {
+  MockMCPHostConfig,
+  MCPCapabilities,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  JSONRPCNotification,
+  JSONRPCMessage,
+  MockContext,
+  LifecycleState,
+  BatchEntry,
+  RequestOptions,
+  ProgressParams,
+  MCPTool,
+  ToolHandler,
+  CallToolResult,
+  MCPResource,
+  MCPResourceTemplate,
+  ResourceBody,
+  ResourceDefinition,
+  ResourceContents,
+  ResourceTemplateReader,
+  MCPPrompt,
+  PromptRenderer,
+  GetPromptResult,
+  MCPClientCapabilities,
+  Root,
+  SamplingHandler,
+  ElicitationHandler,
+  CreateMessageParams,
+  ElicitParams,
+  ManifestOptions,
+  LoggingLevel,
+  LogMessage,
+} from '../types';
 import { HostProfiles, HostProfile } from './HostProfiles';
+import { UriTemplate } from './UriTemplate';
+import {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ProtocolFeature,
+  supportsFeature,
+  negotiateProtocolVersion,
+  latestOf,
+} from './ProtocolVersion';
+import { validateSchema } from './SchemaValidator';
+import { readManifest, synthesizeToolResult, synthesizeResource, synthesizePrompt } from './Manifest';
+import { LOGGING_LEVELS, isAtLeast, isLoggingLevel } from './Logging';
 
 /**
  * MockMCPHost - Simulates an MCP host environment for unit testing
@@ -9,7 +53,21 @@ import { HostProfiles, HostProfile } from './HostProfiles';
  * - A simulated MCP host environment for unit testing (NOT a real IDE connection)
  * - Automatic handling of common MCP protocol messages
  * - Integration with TransportInterceptor for request/response mocking
+ * - Forwarding of unmocked requests to a real server via a configured transport
+ * - Notifications in both directions (client → server and mocked/real server → client)
+ * - Client-side responders for server-initiated sampling, elicitation and roots requests
+ * - Protocol version negotiation, with version-gated features following the negotiated version
+ * - JSON-RPC batches, answered element by element
+ * - Request cancellation (notifications/cancelled) and progress reporting (notifications/progress)
+ * - JSON Schema validation of tool arguments and structured results
+ * - Optional strict enforcement of the connection lifecycle and negotiated capabilities
  * - Capability simulation (tools, resources, prompts)
+ * - Declarative tool, resource, resource-template and prompt registries backing the list/call/read/get methods
+ * - Stand-in servers registered from a saved manifest of their tools, resources and prompts
+ * - Cursor-based pagination of the list responders
+ * - Resource subscriptions with notifications/resources/updated
+ * - Logging: logging/setLevel and leveled notifications/message log entries
+ * - list_changed notifications when registries change, as the capabilities allow
  * - Host profile simulation with themes and capabilities (VSCode, Claude-like, Generic)
  * 
  * For testing in real environments:
@@ -20,18 +78,42 @@ export class MockMCPHost {
   private interceptor: TransportInterceptor;
   private config: MockMCPHostConfig;
   private capabilities: MCPCapabilities;
-  private initialized = false;
+  private lifecycleState: LifecycleState = 'uninitialized';
+  private serverCapabilities: Record<string, unknown> | null = null;
+  private advertisedClientCapabilities: MCPClientCapabilities | null = null;
   private requestIdCounter = 0;
   private hostProfile: HostProfile | null = null;
+  private tools: Map<string, { definition: MCPTool; handler: ToolHandler }> = new Map();
+  private resources: Map<string, { definition: MCPResource; body: ResourceBody }> = new Map();
+  private resourceTemplates: Map<
+    string,
+    { definition: MCPResourceTemplate; template: UriTemplate; reader: ResourceTemplateReader }
+  > = new Map();
+  private prompts: Map<string, { definition: MCPPrompt; render: PromptRenderer }> = new Map();
+  private subscriptions: Set<string> = new Set();
+  /** Tool definitions seen in tools/list responses, for schema validation */
+  private advertisedTools: Map<string, MCPTool> = new Map();
+  private notificationListeners: Set<(notification: JSONRPCNotification) => void> = new Set();
+  private progressHandlers: Map<string | number, (progress: ProgressParams) => void> = new Map();
+  private serverRequestIdCounter = 0;
+  private samplingHandler: SamplingHandler | null = null;
+  private elicitationHandler: ElicitationHandler | null = null;
+  private roots: Root[] | null = null;
+  private negotiatedVersion: string | null = null;
+  private logLevel: LoggingLevel | null = null;
 
   constructor(config: MockMCPHostConfig = {}) {
     this.config = {
-      autoRespond: true,
+      // A real server answers the protocol itself, so built-in responders are opt-in
+      autoRespond: !config.transport,
       debug: false,
       ...config,
     };
 
     this.interceptor = new TransportInterceptor(this.config.debug);
+    if (this.config.validateMessages) {
+      this.interceptor.enableValidation();
+    }
     this.capabilities = {};
 
     // Load host profile if specified
@@ -42,6 +124,68 @@ export class MockMCPHost {
     if (this.config.autoRespond) {
       this.setupAutoResponders();
     }
+
+    this.config.transport?.onMessage?.((message) => {
+      void this.handleServerMessage(message);
+    });
+  }
+
+  /**
+   * Create a host standing in for a server, from a saved capture of its
+   * tools/list, resources/list and prompts/list results (see readManifest()).
+   * Every listed item is registered with synthesized responses: tool results
+   * generated from the outputSchema, resource contents shaped by the mime type,
+   * and prompt messages repeating the arguments. `options` replaces them per
+   * item; items can also be registered again afterwards.
+   *
+   * @example
+   * const host = await MockMCPHost.fromManifest('fixtures/weather-server.json', {
+   *   tools: { forecast: () => ({ content: [{ type: 'text', text: 'Sunny' }] }) },
+   * });
+   */
+  static async fromManifest(file: string, options: ManifestOptions = {}): Promise<MockMCPHost> {
+    const manifest = await readManifest(file);
+    const { seed = 0, tools = {}, resources = {}, resourceTemplates = {}, prompts = {} } = options;
+
+    // Catch overrides that would silently never apply
+    const unknown = (overrides: object, listed: string[], kind: string) => {
+      const missing = Object.keys(overrides).find(key => !listed.includes(key));
+      if (missing !== undefined) {
+        throw new Error(`Override for ${kind} "${missing}", which manifest ${file} does not list`);
+      }
+    };
+    unknown(tools, manifest.tools.map(tool => tool.name), 'tool');
+    unknown(resources, manifest.resources.map(resource => resource.uri), 'resource');
+    unknown(resourceTemplates, manifest.resourceTemplates.map(template => template.uriTemplate), 'resource template');
+    unknown(prompts, manifest.prompts.map(prompt => prompt.name), 'prompt');
+
+    const host = new MockMCPHost(options.config);
+
+    for (const tool of manifest.tools) {
+      host.registerTool(tool, tools[tool.name] ?? ((args) => synthesizeToolResult(tool, args, seed)));
+    }
+    for (const { uri, name, title, description, mimeType } of manifest.resources) {
+      const body = resources[uri] ?? synthesizeResource(uri, name, mimeType);
+      host.registerResource(uri, { mimeType, ...body, name, title, description });
+    }
+    for (const { uriTemplate, ...definition } of manifest.resourceTemplates) {
+      const reader = resourceTemplates[uriTemplate]
+        ?? ((uri: string) => synthesizeResource(uri, definition.name, definition.mimeType));
+      host.registerResourceTemplate(uriTemplate, reader, definition);
+    }
+    for (const prompt of manifest.prompts) {
+      const { name, ...definition } = prompt;
+      host.registerPrompt(name, definition, prompts[name] ?? ((args) => synthesizePrompt(prompt, args)));
+    }
+
+    // Advertise what the manifest lists, unless the config or profile already does
+    host.capabilities = {
+      ...(manifest.tools.length > 0 && { tools: {} }),
+      ...(manifest.resources.length + manifest.resourceTemplates.length > 0 && { resources: {} }),
+      ...(manifest.prompts.length > 0 && { prompts: {} }),
+      ...host.capabilities,
+    };
+    return host;
   }
 
   /**
@@ -75,12 +219,13 @@ export class MockMCPHost {
   private setupAutoResponders(): void {
     // Auto-respond to initialize requests
     this.interceptor.mockResponse('initialize', (request: JSONRPCRequest) => {
-      this.initialized = true;
+      const requested = (request.params as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+      this.negotiatedVersion = negotiateProtocolVersion(requested, this.getSupportedProtocolVersions());
       return {
         jsonrpc: '2.0',
         id: request.id,
         result: {
-          protocolVersion: '2024-11-05',
+          protocolVersion: this.negotiatedVersion,
           capabilities: this.capabilities,
           serverInfo: {
             name: 'mock-mcp-server',
@@ -97,32 +242,224 @@ export class MockMCPHost {
       result: {},
     }));
 
-    // Auto-respond to tools/list requests
-    this.interceptor.mockResponse('tools/list', (request: JSONRPCRequest) => ({
-      jsonrpc: '2.0',
-      id: request.id,
-      result: {
-        tools: [],
-      },
-    }));
+    // Auto-respond to tools/list requests from the tool registry
+    this.interceptor.mockResponse('tools/list', (request: JSONRPCRequest) =>
+      this.paginate(request, 'tools', Array.from(this.tools.values(), tool =>
+        this.gateFields(tool.definition, { title: 'title', outputSchema: 'outputSchema', annotations: 'toolAnnotations' })
+      ))
+    );
 
-    // Auto-respond to resources/list requests
-    this.interceptor.mockResponse('resources/list', (request: JSONRPCRequest) => ({
-      jsonrpc: '2.0',
-      id: request.id,
-      result: {
-        resources: [],
-      },
-    }));
+    // Route tools/call requests to registered tool handlers
+    this.interceptor.mockResponse('tools/call', async (request: JSONRPCRequest, context: MockContext) => {
+      const params = request.params as { name?: string; arguments?: Record<string, unknown> } | undefined;
+      const tool = params?.name !== undefined ? this.tools.get(params.name) : undefined;
+      if (!tool) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: {
+            code: -32602,
+            message: `Unknown tool: ${params?.name}`,
+          },
+        };
+      }
 
-    // Auto-respond to prompts/list requests
-    this.interceptor.mockResponse('prompts/list', (request: JSONRPCRequest) => ({
-      jsonrpc: '2.0',
-      id: request.id,
-      result: {
-        prompts: [],
-      },
-    }));
+      let result: CallToolResult;
+      try {
+        result = await tool.handler(params?.arguments ?? {}, { ...context, request });
+      } catch (error) {
+        // Tool execution errors are reported in the result, not as protocol errors
+        result = {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true,
+        };
+      }
+
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: this.gateFields(result, { structuredContent: 'structuredContent' }),
+      };
+    });
+
+    // Auto-respond to resources/list requests from the resource registry
+    this.interceptor.mockResponse('resources/list', (request: JSONRPCRequest) =>
+      this.paginate(request, 'resources', Array.from(this.resources.values(), resource =>
+        this.gateFields(resource.definition, { title: 'title' })
+      ))
+    );
+
+    // Auto-respond to resources/templates/list requests from the template registry
+    this.interceptor.mockResponse('resources/templates/list', (request: JSONRPCRequest) =>
+      this.paginate(request, 'resourceTemplates', Array.from(this.resourceTemplates.values(), entry =>
+        this.gateFields(entry.definition, { title: 'title' })
+      ))
+    );
+
+    // Serve resources/read from registered resources, then templates
+    this.interceptor.mockResponse('resources/read', async (request: JSONRPCRequest) => {
+      const uri = (request.params as { uri?: unknown } | undefined)?.uri;
+      if (typeof uri !== 'string') {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32602, message: 'Invalid params: uri must be a string' },
+        };
+      }
+
+      const contents = await this.readRegisteredResource(uri);
+      if (!contents) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32002, message: 'Resource not found', data: { uri } },
+        };
+      }
+
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: { contents: [contents] },
+      };
+    });
+
+    // Track resources/subscribe and resources/unsubscribe when the capabilities allow it
+    const subscription = (subscribe: boolean) => (request: JSONRPCRequest): JSONRPCResponse => {
+      if (!this.capabilities.resources?.subscribe) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32601, message: `Method not found: ${request.method}` },
+        };
+      }
+
+      const uri = (request.params as { uri?: unknown } | undefined)?.uri;
+      if (typeof uri !== 'string') {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32602, message: 'Invalid params: uri must be a string' },
+        };
+      }
+
+      if (subscribe) {
+        this.subscriptions.add(uri);
+      } else {
+        this.subscriptions.delete(uri);
+      }
+      return { jsonrpc: '2.0', id: request.id, result: {} };
+    };
+    this.interceptor.mockResponse('resources/subscribe', subscription(true));
+    this.interceptor.mockResponse('resources/unsubscribe', subscription(false));
+
+    // Remember the minimum log level the client asked for, when the capabilities allow it
+    this.interceptor.mockResponse('logging/setLevel', (request: JSONRPCRequest) => {
+      if (!this.capabilities.logging) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32601, message: `Method not found: ${request.method}` },
+        };
+      }
+
+      const level = (request.params as { level?: unknown } | undefined)?.level;
+      if (!isLoggingLevel(level)) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32602, message: `Invalid params: level must be one of ${LOGGING_LEVELS.join(', ')}` },
+        };
+      }
+
+      this.logLevel = level;
+      return { jsonrpc: '2.0', id: request.id, result: {} };
+    });
+
+    // Auto-respond to prompts/list requests from the prompt registry
+    this.interceptor.mockResponse('prompts/list', (request: JSONRPCRequest) =>
+      this.paginate(request, 'prompts', Array.from(this.prompts.values(), prompt => {
+        const definition = this.gateFields(prompt.definition, { title: 'title' });
+        if (definition.arguments) {
+          definition.arguments = definition.arguments.map(arg => this.gateFields(arg, { title: 'title' }));
+        }
+        return definition;
+      }))
+    );
+
+    // Render prompts/get requests with the registered prompt, validating arguments first
+    this.interceptor.mockResponse('prompts/get', async (request: JSONRPCRequest) => {
+      const params = request.params as { name?: string; arguments?: Record<string, unknown> } | undefined;
+      const invalid = (message: string): JSONRPCResponse => ({
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message },
+      });
+
+      const prompt = params?.name !== undefined ? this.prompts.get(params.name) : undefined;
+      if (!prompt) {
+        return invalid(`Unknown prompt: ${params?.name}`);
+      }
+
+      const args = params?.arguments ?? {};
+      for (const argument of prompt.definition.arguments ?? []) {
+        if (argument.required && args[argument.name] === undefined) {
+          return invalid(`Missing required argument: ${argument.name}`);
+        }
+      }
+      for (const [key, value] of Object.entries(args)) {
+        if (typeof value !== 'string') {
+          return invalid(`Argument "${key}" must be a string`);
+        }
+      }
+
+      try {
+        const rendered = await prompt.render(args as Record<string, string>);
+        const result: GetPromptResult = Array.isArray(rendered) ? { messages: rendered } : { ...rendered };
+        if (result.description === undefined && prompt.definition.description !== undefined) {
+          result.description = prompt.definition.description;
+        }
+        return { jsonrpc: '2.0', id: request.id, result };
+      } catch (error) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32603, message: error instanceof Error ? error.message : String(error) },
+        };
+      }
+    });
+
+    // Built-in responders are not expected to be used by every test
+    for (const mock of this.interceptor.getMocks()) {
+      mock.optional();
+    }
+  }
+
+  /**
+   * Build a list response holding the page of `items` selected by the
+   * request's cursor. Without `pageSize` every item is returned at once.
+   */
+  private paginate(request: JSONRPCRequest, key: string, items: unknown[]): JSONRPCResponse {
+    const cursor = (request.params as { cursor?: unknown } | undefined)?.cursor;
+    const offset = cursor === undefined ? 0 : decodeCursor(cursor);
+    if (offset === null || offset > items.length) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message: `Invalid cursor: ${JSON.stringify(cursor)}` },
+      };
+    }
+
+    const pageSize = this.config.pageSize;
+    if (!pageSize) {
+      return { jsonrpc: '2.0', id: request.id, result: { [key]: items.slice(offset) } };
+    }
+
+    const end = offset + pageSize;
+    const result: Record<string, unknown> = { [key]: items.slice(offset, end) };
+    if (end < items.length) {
+      result.nextCursor = encodeCursor(end);
+    }
+    return { jsonrpc: '2.0', id: request.id, result };
   }
 
   /**
@@ -132,66 +469,983 @@ export class MockMCPHost {
     this.capabilities = capabilities;
   }
 
+  /**
+   * Register a tool. It is listed by tools/list and tools/call requests naming
+   * it are routed to the handler. Registering an existing name replaces it.
+   *
+   * @example
+   * host.registerTool(
+   *   { name: 'greet', inputSchema: { type: 'object', properties: { name: { type: 'string' } } } },
+   *   async ({ name }) => ({ content: [{ type: 'text', text: `Hello, ${name}!` }] })
+   * );
+   */
+  registerTool(definition: MCPTool, handler: ToolHandler): void {
+    this.tools.set(definition.name, { definition, handler });
+    this.notifyListChanged('tools');
+  }
+
+  /**
+   * Remove a registered tool
+   * @returns Whether the tool was registered
+   */
+  unregisterTool(name: string): boolean {
+    const removed = this.tools.delete(name);
+    if (removed) {
+      this.notifyListChanged('tools');
+    }
+    return removed;
+  }
+
+  /**
+   * Register a static resource. It is listed by resources/list and served by
+   * resources/read. Registering an existing URI replaces it.
+   *
+   * @example
+   * host.registerResource('ui://widget/app.html', { mimeType: 'text/html', text: '<div>Hi</div>' });
+   */
+  registerResource(uri: string, content: ResourceDefinition): void {
+    this.storeResource(uri, content);
+    this.notifyListChanged('resources');
+  }
+
+  /**
+   * Remove a registered resource
+   * @returns Whether the resource was registered
+   */
+  unregisterResource(uri: string): boolean {
+    const removed = this.resources.delete(uri);
+    if (removed) {
+      this.notifyListChanged('resources');
+    }
+    return removed;
+  }
+
+  private storeResource(uri: string, content: ResourceDefinition): void {
+    const { name, title, description, ...body } = content;
+    const definition: MCPResource = { uri, name: name ?? defaultResourceName(uri) };
+    if (title !== undefined) definition.title = title;
+    if (description !== undefined) definition.description = description;
+    if (body.mimeType !== undefined) definition.mimeType = body.mimeType;
+
+    this.resources.set(uri, { definition, body: body as ResourceBody });
+  }
+
+  /**
+   * Change a resource and notify subscribers. With `content` the registered
+   * resource is replaced first; without it, only the notification is sent.
+   * notifications/resources/updated is emitted only if a client subscribed to `uri`.
+   * Updating an existing resource does not change the list, so no list_changed is sent.
+   *
+   * @returns Whether a notification was sent
+   */
+  async updateResource(uri: string, content?: ResourceDefinition): Promise<boolean> {
+    if (content) {
+      if (this.resources.has(uri)) {
+        this.storeResource(uri, content);
+      } else {
+        this.registerResource(uri, content);
+      }
+    }
+    if (!this.subscriptions.has(uri)) {
+      return false;
+    }
+    await this.emitNotification('notifications/resources/updated', { uri });
+    return true;
+  }
+
+  /**
+   * URIs clients are currently subscribed to
+   */
+  getResourceSubscriptions(): string[] {
+    return Array.from(this.subscriptions);
+  }
+
+  /**
+   * Register an RFC 6570 resource template. resources/read requests whose URI
+   * matches the template (and no static resource) are passed to the reader
+   * with the extracted variables. Use `{+var}` for values containing slashes.
+   *
+   * @example
+   * host.registerResourceTemplate('file:///{+path}', (uri, { path }) => ({
+   *   mimeType: 'text/plain',
+   *   text: files[path as string],
+   * }));
+   */
+  registerResourceTemplate(
+    uriTemplate: string,
+    reader: ResourceTemplateReader,
+    options: Omit<MCPResourceTemplate, 'uriTemplate' | 'name'> & { name?: string } = {}
+  ): void {
+    const definition: MCPResourceTemplate = {
+      uriTemplate,
+      ...options,
+      name: options.name ?? uriTemplate,
+    };
+    this.resourceTemplates.set(uriTemplate, { definition, template: new UriTemplate(uriTemplate), reader });
+    this.notifyListChanged('resources');
+  }
+
+  /**
+   * Remove a registered resource template
+   * @returns Whether the template was registered
+   */
+  unregisterResourceTemplate(uriTemplate: string): boolean {
+    const removed = this.resourceTemplates.delete(uriTemplate);
+    if (removed) {
+      this.notifyListChanged('resources');
+    }
+    return removed;
+  }
+
+  /**
+   * Register a prompt. It is listed by prompts/list and rendered by prompts/get.
+   * Missing required arguments are rejected with -32602 before `render` runs.
+   *
+   * @example
+   * host.registerPrompt(
+   *   'review',
+   *   { description: 'Review code', arguments: [{ name: 'code', required: true }] },
+   *   ({ code }) => [{ role: 'user', content: { type: 'text', text: `Review:\n${code}` } }]
+   * );
+   */
+  registerPrompt(name: string, definition: Omit<MCPPrompt, 'name'>, render: PromptRenderer): void {
+    this.prompts.set(name, { definition: { name, ...definition }, render });
+    this.notifyListChanged('prompts');
+  }
+
+  /**
+   * Remove a registered prompt
+   * @returns Whether the prompt was registered
+   */
+  unregisterPrompt(name: string): boolean {
+    const removed = this.prompts.delete(name);
+    if (removed) {
+      this.notifyListChanged('prompts');
+    }
+    return removed;
+  }
+
+  /**
+   * Emit notifications/<kind>/list_changed after a registry change, if the
+   * client has sent notifications/initialized and the capabilities declare
+   * `listChanged`. Earlier changes are dropped: the client has not listed
+   * anything yet, so its first list is already current.
+   * Registration is synchronous, so the notification is emitted in the background;
+   * use waitForNotification() to observe it.
+   */
+  private notifyListChanged(kind: 'tools' | 'resources' | 'prompts'): void {
+    if (this.lifecycleState === 'ready' && this.capabilities[kind]?.listChanged) {
+      this.emitNotification(`notifications/${kind}/list_changed`).catch((error) => {
+        if (this.config.debug) {
+          console.log(`[MockMCPHost] Failed to emit ${kind} list_changed:`, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Resolve a URI against the resource registry, then the templates in
+   * registration order. Returns null if nothing serves it.
+   */
+  private async readRegisteredResource(uri: string): Promise<ResourceContents | null> {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return toResourceContents(uri, resource.body);
+    }
+
+    for (const { definition, template, reader } of this.resourceTemplates.values()) {
+      const variables = template.match(uri);
+      if (!variables) continue;
+
+      const body = await reader(uri, variables);
+      if (body) {
+        return toResourceContents(uri, { mimeType: definition.mimeType, ...body } as ResourceBody);
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Send a request to the server (simulate client -> server)
+   * @param options Cancellation signal, timeout and progress callback
    */
-  async sendRequest(method: string, params?: unknown): Promise<JSONRPCResponse> {
+  async sendRequest(method: string, params?: unknown, options: RequestOptions = {}): Promise<JSONRPCResponse> {
+    if (options.signal?.aborted) {
+      throw new Error(`Request ${method} cancelled: ${abortReason(options.signal)}`);
+    }
+
+    const id = ++this.requestIdCounter;
     const request: JSONRPCRequest = {
       jsonrpc: '2.0',
-      id: ++this.requestIdCounter,
+      id,
       method,
-      params,
+      params: options.onProgress ? withProgressToken(params, id) : params,
     };
 
     // Intercept the request
     const interceptedRequest = await this.interceptor.interceptRequest(request);
 
+    const rejection = this.checkLifecycle(interceptedRequest);
+    if (rejection) {
+      return await this.interceptor.interceptResponse(rejection);
+    }
+
+    const isHandshake = interceptedRequest.method === 'initialize' && this.lifecycleState === 'uninitialized';
+    if (isHandshake) {
+      this.lifecycleState = 'initializing';
+    }
+
+    const progressToken = getProgressToken(interceptedRequest);
+    if (options.onProgress && progressToken !== undefined) {
+      this.progressHandlers.set(progressToken, options.onProgress);
+    }
+
+    const controller = new AbortController();
+    let response: JSONRPCResponse;
+    let duplicate: boolean;
+    try {
+      ({ response, duplicate } = await this.withCancellation(
+        this.dispatchRequest(interceptedRequest, controller.signal)
+          .then(answer => this.interceptor.applyFaults(interceptedRequest, answer))
+          // A dropped response never arrives
+          .then(faulted => faulted.response ? { ...faulted, response: faulted.response } : new Promise<never>(() => {})),
+        interceptedRequest,
+        controller,
+        options
+      ));
+    } catch (error) {
+      if (isHandshake) this.lifecycleState = 'uninitialized';
+      throw error;
+    } finally {
+      if (progressToken !== undefined) this.progressHandlers.delete(progressToken);
+    }
+
+    if (isHandshake) {
+      if (response.result) {
+        this.lifecycleState = 'initialized';
+        this.serverCapabilities =
+          (response.result as { capabilities?: Record<string, unknown> }).capabilities ?? {};
+      } else {
+        this.lifecycleState = 'uninitialized';
+      }
+    }
+
+    const intercepted = await this.interceptor.interceptResponse(response);
+    if (duplicate) {
+      await this.interceptor.interceptResponse(response);
+    }
+    this.checkToolSchemas(interceptedRequest, intercepted, options.validateSchemas);
+    return intercepted;
+  }
+
+  /**
+   * Answer a request with a mock, the real server, or a method-not-found error
+   */
+  private async dispatchRequest(request: JSONRPCRequest, signal: AbortSignal): Promise<JSONRPCResponse> {
     // Check if we should mock the response
-    const mockResponse = await this.interceptor.shouldMock(interceptedRequest);
+    const mockResponse = await this.interceptor.shouldMock(request, this.createMockContext(request, signal));
     if (mockResponse) {
-      return await this.interceptor.interceptResponse(mockResponse);
+      return mockResponse;
+    }
+
+    // Forward to the real server when a transport is configured
+    const transport = this.config.transport;
+    if (transport?.request) {
+      return await transport.request(request);
     }
 
     // If no mock, return an error
-    const errorResponse: JSONRPCResponse = {
+    this.interceptor.recordUnmatched(request);
+    return {
       jsonrpc: '2.0',
-      id: interceptedRequest.id,
+      id: request.id,
       error: {
         code: -32601,
-        message: `Method not found: ${method}`,
+        message: `Method not found: ${request.method}`,
       },
     };
+  }
+
+  /**
+   * Race a pending request against the caller's signal and timeout. On
+   * cancellation the mock's signal is aborted, notifications/cancelled is sent
+   * and the returned promise rejects.
+   */
+  private async withCancellation<T>(
+    pending: Promise<T>,
+    request: JSONRPCRequest,
+    controller: AbortController,
+    { signal, timeout }: RequestOptions
+  ): Promise<T> {
+    if (!signal && timeout === undefined) {
+      return await pending;
+    }
+
+    // A response arriving after cancellation is dropped
+    pending.catch(() => {});
+
+    let cleanup = () => {};
+    const cancelled = new Promise<never>((_, reject) => {
+      const cancel = async (reason: string) => {
+        cleanup();
+        controller.abort(reason);
+        try {
+          // The spec forbids cancelling initialize
+          if (request.method !== 'initialize') {
+            await this.sendNotification('notifications/cancelled', { requestId: request.id, reason });
+          }
+        } finally {
+          reject(new Error(`Request ${request.method} cancelled: ${reason}`));
+        }
+      };
+      const onAbort = () => void cancel(abortReason(signal));
+      const timer = timeout !== undefined
+        ? setTimeout(() => void cancel(`timed out after ${timeout}ms`), timeout)
+        : undefined;
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      cleanup = () => {
+        signal?.removeEventListener('abort', onAbort);
+        clearTimeout(timer);
+      };
+      // Aborted while the request was being intercepted
+      if (signal?.aborted) onAbort();
+    });
+
+    try {
+      return await Promise.race([pending, cancelled]);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * In strict mode, check a client -> server request against the lifecycle
+   * and the server's advertised capabilities. Violations are recorded; the
+   * returned error response, if any, is sent back instead of dispatching.
+   */
+  private checkLifecycle(request: JSONRPCRequest): JSONRPCResponse | null {
+    if (!this.config.strict) {
+      return null;
+    }
+
+    const reject = (code: number, message: string): JSONRPCResponse => ({
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code, message },
+    });
+
+    if (request.method === 'ping') {
+      return null;
+    }
+
+    if (request.method === 'initialize') {
+      if (this.lifecycleState === 'uninitialized') {
+        return null;
+      }
+      this.interceptor.recordViolation(
+        'lifecycle.duplicate-initialize',
+        'initialize was sent on a connection that is already initialized',
+        request
+      );
+      return reject(-32600, 'Connection already initialized');
+    }
+
+    if (this.lifecycleState === 'uninitialized' || this.lifecycleState === 'initializing') {
+      this.interceptor.recordViolation(
+        'lifecycle.not-initialized',
+        `${request.method} was sent before initialization completed`,
+        request
+      );
+      return reject(-32600, 'Server not initialized');
+    }
+
+    if (this.lifecycleState === 'initialized') {
+      // The server may still answer, so this is flagged but not rejected
+      this.interceptor.recordViolation(
+        'lifecycle.initialized-notification-missing',
+        `${request.method} was sent before notifications/initialized`,
+        request
+      );
+    }
+
+    const capability = requiredServerCapability(request.method);
+    if (capability && !hasCapability(this.serverCapabilities, capability)) {
+      this.interceptor.recordViolation(
+        'capability.not-advertised',
+        `${request.method} requires the server capability "${capability}", which was not advertised`,
+        request
+      );
+      return reject(-32601, `Method not found: ${request.method}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * In strict mode, check a server -> client request against the lifecycle
+   * and the capabilities this host advertised. Returns an error response for
+   * requests the host must refuse.
+   */
+  private checkServerRequest(request: JSONRPCRequest): JSONRPCResponse | null {
+    if (!this.config.strict || request.method === 'ping') {
+      return null;
+    }
+
+    if (this.lifecycleState === 'uninitialized' || this.lifecycleState === 'initializing') {
+      // Servers may only ping before the client has initialized
+      this.interceptor.recordViolation(
+        'lifecycle.not-initialized',
+        `Server sent ${request.method} before initialization completed`,
+        request
+      );
+      return null;
+    }
+
+    const capability = REQUIRED_CLIENT_CAPABILITIES[request.method];
+    if (capability && !hasCapability(this.advertisedClientCapabilities, capability)) {
+      this.interceptor.recordViolation(
+        'capability.not-advertised',
+        `Server sent ${request.method}, but the client did not advertise "${capability}"`,
+        request
+      );
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32601, message: `Method not found: ${request.method}` },
+      };
+    }
 
-    return await this.interceptor.interceptResponse(errorResponse);
+    return null;
   }
 
   /**
-   * Initialize the MCP connection
+   * Send a notification to the server (simulate client -> server)
    */
-  async initialize(clientInfo?: { name: string; version: string }): Promise<JSONRPCResponse> {
-    return await this.sendRequest('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
+  async sendNotification(method: string, params?: unknown): Promise<void> {
+    const notification: JSONRPCNotification = { jsonrpc: '2.0', method };
+    if (params !== undefined) {
+      notification.params = params;
+    }
+
+    const intercepted = await this.interceptor.interceptNotification(notification, 'outgoing');
+    if (intercepted.method === 'notifications/initialized' && this.lifecycleState === 'initialized') {
+      this.lifecycleState = 'ready';
+    }
+    await this.config.transport?.send?.(intercepted);
+  }
+
+  /**
+   * Send requests and notifications as one JSON-RPC batch (protocol revision
+   * 2025-03-26). Mocks answer each request concurrently; the remaining
+   * messages go to the transport, as a single batch if it supports one.
+   * Responses are returned in the order they arrive, so match them by id.
+   * In strict mode, batching under a revision without it throws.
+   */
+  async sendBatch(entries: BatchEntry[]): Promise<JSONRPCResponse[]> {
+    if (entries.length === 0) {
+      throw new Error('A JSON-RPC batch must contain at least one message');
+    }
+    if (this.config.strict && !this.supports('batching')) {
+      const version = this.negotiatedVersion ?? this.getRequestedProtocolVersion();
+      this.interceptor.recordViolation('batch.unsupported', `Protocol version ${version} does not support JSON-RPC batches`);
+      throw new Error(`JSON-RPC batches are not supported in protocol version ${version}`);
+    }
+
+    const batchId = this.interceptor.beginBatch();
+    const messages: Array<JSONRPCRequest | JSONRPCNotification> = [];
+    for (const { method, params, notification } of entries) {
+      if (notification) {
+        const message: JSONRPCNotification = { jsonrpc: '2.0', method };
+        if (params !== undefined) message.params = params;
+        messages.push(await this.interceptor.interceptNotification(message, 'outgoing', batchId));
+      } else {
+        const request: JSONRPCRequest = { jsonrpc: '2.0', id: ++this.requestIdCounter, method, params };
+        messages.push(await this.interceptor.interceptRequest(request, 'outgoing', batchId));
+      }
+    }
+
+    const responses: JSONRPCResponse[] = [];
+    const receive = async (response: JSONRPCResponse) => {
+      const intercepted = await this.interceptor.interceptResponse(response, 'incoming', batchId);
+      const request = messages.find((m): m is JSONRPCRequest => 'id' in m && m.id === intercepted.id);
+      if (request) {
+        this.checkToolSchemas(request, intercepted);
+      }
+      responses.push(intercepted);
+    };
+    // Responses to the batch's requests pass through the fault rules first
+    const deliver = async (request: JSONRPCRequest, answer: JSONRPCResponse) => {
+      const { response, duplicate } = await this.interceptor.applyFaults(request, answer);
+      // A dropped response is missing from the batch
+      if (!response) return;
+      await receive(response);
+      if (duplicate) {
+        await this.interceptor.interceptResponse(response, 'incoming', batchId);
+      }
+    };
+
+    // Answer what the host can locally, in parallel, and collect the rest
+    const routed = await Promise.all(messages.map(async (message) => {
+      if (!('id' in message)) {
+        return message;
+      }
+      const rejection = this.checkBatchElement(message) ?? this.checkLifecycle(message);
+      if (rejection) {
+        await receive(rejection);
+        return null;
+      }
+      const mockResponse = await this.interceptor.shouldMock(
+        message,
+        this.createMockContext(message, new AbortController().signal)
+      );
+      if (mockResponse) {
+        await deliver(message, mockResponse);
+        return null;
+      }
+      return message;
+    }));
+    const forwarded = routed.filter((message): message is JSONRPCRequest | JSONRPCNotification => message !== null);
+
+    const transport = this.config.transport;
+    if (forwarded.length > 0 && transport?.requestBatch) {
+      await Promise.all((await transport.requestBatch(forwarded)).map((response) => {
+        const request = forwarded.find((m): m is JSONRPCRequest => 'id' in m && m.id === response.id);
+        return request ? deliver(request, response) : receive(response);
+      }));
+    } else {
+      await Promise.all(forwarded.map(async (message) => {
+        if (!('id' in message)) {
+          await transport?.send?.(message);
+        } else if (transport?.request) {
+          await deliver(message, await transport.request(message));
+        } else {
+          this.interceptor.recordUnmatched(message);
+          await receive({
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: -32601, message: `Method not found: ${message.method}` },
+          });
+        }
+      }));
+    }
+
+    return responses;
+  }
+
+  /**
+   * Remember the tools servers advertise, and validate tools/call arguments
+   * and structured results against the tool's schemas. Problems are recorded
+   * as 'schema.input' and 'schema.output' protocol violations.
+   */
+  private checkToolSchemas(
+    request: JSONRPCRequest,
+    response: JSONRPCResponse,
+    validate = this.config.validateSchemas !== false
+  ): void {
+    if (request.method === 'tools/list') {
+      for (const tool of (response.result as { tools?: MCPTool[] } | undefined)?.tools ?? []) {
+        this.advertisedTools.set(tool.name, tool);
+      }
+      return;
+    }
+    if (request.method !== 'tools/call' || !validate) {
+      return;
+    }
+
+    const params = request.params as { name?: string; arguments?: unknown } | undefined;
+    const name = params?.name;
+    const tool = name === undefined ? undefined : this.advertisedTools.get(name) ?? this.tools.get(name)?.definition;
+    if (!tool) {
+      return;
+    }
+
+    const record = (rule: string, reason: string) => this.interceptor.recordViolation(rule, reason, request);
+
+    if (tool.inputSchema) {
+      for (const error of validateSchema(tool.inputSchema, params?.arguments ?? {})) {
+        record('schema.input', `Tool "${name}" arguments at ${error.path || '(root)'}: ${error.message}`);
+      }
+    }
+
+    const result = response.result as CallToolResult | undefined;
+    const outputSchema = this.supports('outputSchema') ? tool.outputSchema : undefined;
+    if (!outputSchema || !result || result.isError) {
+      return;
+    }
+    if (result.structuredContent === undefined) {
+      record('schema.output', `Tool "${name}" declares an outputSchema but returned no structuredContent`);
+      return;
+    }
+    for (const error of validateSchema(outputSchema, result.structuredContent)) {
+      record('schema.output', `Tool "${name}" structuredContent at ${error.path || '(root)'}: ${error.message}`);
+    }
+  }
+
+  /**
+   * In strict mode, reject batch elements the spec forbids in a batch
+   */
+  private checkBatchElement(request: JSONRPCRequest): JSONRPCResponse | null {
+    if (!this.config.strict || request.method !== 'initialize') {
+      return null;
+    }
+    this.interceptor.recordViolation(
+      'lifecycle.initialize-in-batch',
+      'initialize must not be part of a JSON-RPC batch',
+      request
+    );
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: -32600, message: 'initialize must not be part of a JSON-RPC batch' },
+    };
+  }
+
+  /**
+   * Emit a notification from the simulated server to the client
+   * (simulate server -> client). Mocks do the same through their context.
+   */
+  async emitNotification(method: string, params?: unknown): Promise<void> {
+    const notification: JSONRPCNotification = { jsonrpc: '2.0', method };
+    if (params !== undefined) {
+      notification.params = params;
+    }
+    await this.receiveNotification(notification);
+  }
+
+  /**
+   * Send a log entry from the simulated server (notifications/message).
+   * Entries less severe than the level set with logging/setLevel are dropped;
+   * before any level is set, everything is sent. Nothing is sent unless the
+   * capabilities declare `logging`; strict mode records a violation.
+   *
+   * @returns Whether the entry was sent
+   */
+  async log(level: LoggingLevel, data: unknown, logger?: string): Promise<boolean> {
+    if (!this.capabilities.logging) {
+      if (this.config.strict) {
+        this.interceptor.recordViolation(
+          'capability.not-advertised',
+          'Server sent notifications/message, but it did not advertise "logging"'
+        );
+      }
+      return false;
+    }
+    if (this.logLevel !== null && !isAtLeast(level, this.logLevel)) {
+      return false;
+    }
+    const entry: LogMessage = { level, data };
+    if (logger !== undefined) {
+      entry.logger = logger;
+    }
+    await this.emitNotification('notifications/message', entry);
+    return true;
+  }
+
+  /**
+   * Minimum log level the client set with logging/setLevel, or null if none was set
+   */
+  getLogLevel(): LoggingLevel | null {
+    return this.logLevel;
+  }
+
+  /**
+   * Wait for a server -> client notification with the given method.
+   * Resolves immediately if one has already been received.
+   */
+  async waitForNotification(method: string, timeout = 5000): Promise<JSONRPCNotification> {
+    const existing = this.interceptor.findNotificationsByMethod(method, 'incoming');
+    if (existing.length > 0) {
+      return existing[0];
+    }
+
+    return new Promise<JSONRPCNotification>((resolve, reject) => {
+      const listener = (notification: JSONRPCNotification) => {
+        if (notification.method !== method) return;
+        clearTimeout(deadline);
+        this.notificationListeners.delete(listener);
+        resolve(notification);
+      };
+      const deadline = setTimeout(() => {
+        this.notificationListeners.delete(listener);
+        reject(new Error(`Timeout waiting for notification "${method}"`));
+      }, timeout);
+      this.notificationListeners.add(listener);
+    });
+  }
+
+  /**
+   * Record a server -> client notification and hand it to listeners
+   */
+  private async receiveNotification(notification: JSONRPCNotification): Promise<void> {
+    const intercepted = await this.interceptor.interceptNotification(notification, 'incoming');
+    if (intercepted.method === 'notifications/progress') {
+      const progress = intercepted.params as ProgressParams | undefined;
+      if (progress) this.progressHandlers.get(progress.progressToken)?.(progress);
+    }
+    for (const listener of [...this.notificationListeners]) {
+      listener(intercepted);
+    }
+  }
+
+  /**
+   * Answer sampling/createMessage requests from the server.
+   * Register before initialize() so the sampling capability is advertised.
+   */
+  onSampling(handler: SamplingHandler): void {
+    this.samplingHandler = handler;
+  }
+
+  /**
+   * Answer elicitation/create requests from the server.
+   * Register before initialize() so the elicitation capability is advertised.
+   */
+  onElicitation(handler: ElicitationHandler): void {
+    this.elicitationHandler = handler;
+  }
+
+  /**
+   * Set the roots returned for roots/list requests from the server. Call before
+   * initialize() to advertise the roots capability; later calls notify the
+   * server with notifications/roots/list_changed.
+   */
+  async setRoots(roots: Root[]): Promise<void> {
+    this.roots = [...roots];
+    if (this.isInitialized()) {
+      await this.sendNotification('notifications/roots/list_changed');
+    }
+  }
+
+  /**
+   * Capabilities this host advertises as a client, derived from the registered responders
+   */
+  getClientCapabilities(): MCPClientCapabilities {
+    const capabilities: MCPClientCapabilities = {};
+    if (this.roots) {
+      capabilities.roots = { listChanged: true };
+    }
+    if (this.samplingHandler) {
+      capabilities.sampling = {};
+    }
+    if (this.elicitationHandler && supportsFeature(this.getRequestedProtocolVersion(), 'elicitation')) {
+      capabilities.elicitation = {};
+    }
+    return capabilities;
+  }
+
+  /**
+   * Issue a request from the simulated server to this host and return the
+   * host's response (simulate server -> client). Mocks do the same through their context.
+   */
+  async receiveServerRequest(method: string, params?: unknown): Promise<JSONRPCResponse> {
+    const request: JSONRPCRequest = {
+      jsonrpc: '2.0',
+      id: ++this.serverRequestIdCounter,
+      method,
+    };
+    if (params !== undefined) {
+      request.params = params;
+    }
+    return await this.handleServerRequest(request);
+  }
+
+  /**
+   * Record a server -> client request, answer it with the registered
+   * responders and record the response
+   */
+  private async handleServerRequest(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+    const intercepted = await this.interceptor.interceptRequest(request, 'incoming');
+    const response = this.checkServerRequest(intercepted) ?? (await this.respondToServerRequest(intercepted));
+    return await this.interceptor.interceptResponse(response, 'outgoing');
+  }
+
+  private async respondToServerRequest(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+    const success = (result: unknown): JSONRPCResponse => ({ jsonrpc: '2.0', id: request.id, result });
+    const notFound: JSONRPCResponse = {
+      jsonrpc: '2.0',
+      id: request.id,
+      error: { code: -32601, message: `Method not found: ${request.method}` },
+    };
+
+    try {
+      switch (request.method) {
+        case 'ping':
+          return success({});
+        case 'roots/list':
+          return this.roots ? success({ roots: this.roots }) : notFound;
+        case 'sampling/createMessage':
+          return this.samplingHandler
+            ? success(await this.samplingHandler(request.params as CreateMessageParams, request))
+            : notFound;
+        case 'elicitation/create':
+          return this.elicitationHandler && this.supports('elicitation')
+            ? success(await this.elicitationHandler(request.params as ElicitParams, request))
+            : notFound;
+        default:
+          return notFound;
+      }
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32603, message: error instanceof Error ? error.message : String(error) },
+      };
+    }
+  }
+
+  /**
+   * Handle a message the real server initiated through the transport
+   */
+  private async handleServerMessage(message: JSONRPCMessage): Promise<void> {
+    if ('method' in message && !('id' in message)) {
+      await this.receiveNotification(message);
+    } else if ('method' in message) {
+      const response = await this.handleServerRequest(message);
+      await this.config.transport?.send?.(response);
+    } else if (this.config.debug) {
+      console.log('[MockMCPHost] Ignoring server message:', JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Context handed to mocks so they can act as the server towards this host
+   */
+  private createMockContext(request: JSONRPCRequest, signal: AbortSignal): MockContext {
+    const progressToken = getProgressToken(request);
+    return {
+      notify: (method, params) => this.emitNotification(method, params),
+      sendRequest: (method, params) => this.receiveServerRequest(method, params),
+      progress: async (progress, total, message) => {
+        if (progressToken === undefined) return;
+        const params: ProgressParams = { progressToken, progress };
+        if (total !== undefined) params.total = total;
+        if (message !== undefined) params.message = message;
+        await this.emitNotification('notifications/progress', params);
+      },
+      log: async (level, data, logger) => {
+        await this.log(level, data, logger);
+      },
+      signal,
+    };
+  }
+
+  /**
+   * Initialize the MCP connection. On success the required
+   * notifications/initialized is sent, completing the handshake.
+   * @param options Cancellation signal and timeout for the initialize request
+   */
+  async initialize(
+    clientInfo?: { name: string; version: string },
+    options: RequestOptions = {}
+  ): Promise<JSONRPCResponse> {
+    const capabilities = this.getClientCapabilities();
+    const response = await this.sendRequest('initialize', {
+      protocolVersion: this.getRequestedProtocolVersion(),
+      capabilities,
       clientInfo: clientInfo || {
         name: 'mock-client',
         version: '0.1.0',
       },
-    });
+    }, options);
+
+    if (response.result) {
+      const offered = (response.result as { protocolVersion?: unknown }).protocolVersion;
+      if (typeof offered !== 'string' || !this.getSupportedProtocolVersions().includes(offered)) {
+        this.lifecycleState = 'uninitialized';
+        this.serverCapabilities = null;
+        throw new Error(
+          `Server offered unsupported protocol version ${JSON.stringify(offered)}; ` +
+          `supported: ${this.getSupportedProtocolVersions().join(', ')}`
+        );
+      }
+      this.negotiatedVersion = offered;
+      this.advertisedClientCapabilities = capabilities;
+      await this.sendNotification('notifications/initialized');
+    }
+
+    return response;
+  }
+
+  /**
+   * Protocol versions this host supports
+   */
+  getSupportedProtocolVersions(): string[] {
+    return this.config.protocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS;
+  }
+
+  /**
+   * Protocol version agreed during initialize, or null before initialization
+   */
+  getProtocolVersion(): string | null {
+    return this.negotiatedVersion;
+  }
+
+  /**
+   * Version the client asks for in initialize
+   */
+  private getRequestedProtocolVersion(): string {
+    return this.config.protocolVersion ?? latestOf(this.getSupportedProtocolVersions());
+  }
+
+  /**
+   * Whether a version-gated feature is available. Before initialization the
+   * requested version applies.
+   */
+  private supports(feature: ProtocolFeature): boolean {
+    return supportsFeature(this.negotiatedVersion ?? this.getRequestedProtocolVersion(), feature);
+  }
+
+  /**
+   * Copy of `value` without the fields whose feature the active version lacks
+   */
+  private gateFields<T extends object>(value: T, fields: Partial<Record<keyof T, ProtocolFeature>>): T {
+    const copy = { ...value };
+    for (const [key, feature] of Object.entries(fields) as Array<[keyof T, ProtocolFeature]>) {
+      if (!this.supports(feature)) {
+        delete copy[key];
+      }
+    }
+    return copy;
   }
 
   /**
    * Check if the host is initialized
    */
   isInitialized(): boolean {
-    return this.initialized;
+    return this.lifecycleState === 'initialized' || this.lifecycleState === 'ready';
+  }
+
+  /**
+   * Current phase of the connection lifecycle
+   */
+  getLifecycleState(): LifecycleState {
+    return this.lifecycleState;
   }
 
   /**
-   * Cleanup and reset the host
+   * Cleanup and reset the host. Closes the configured transport, if any.
    */
   async cleanup(): Promise<void> {
+    await this.config.transport?.close?.();
     this.interceptor.reset();
-    this.initialized = false;
+    this.tools.clear();
+    this.resources.clear();
+    this.resourceTemplates.clear();
+    this.prompts.clear();
+    this.subscriptions.clear();
+    this.logLevel = null;
+    this.advertisedTools.clear();
+    this.notificationListeners.clear();
+    this.progressHandlers.clear();
+    this.samplingHandler = null;
+    this.elicitationHandler = null;
+    this.roots = null;
+    this.serverRequestIdCounter = 0;
+    this.lifecycleState = 'uninitialized';
+    this.serverCapabilities = null;
+    this.advertisedClientCapabilities = null;
+    this.negotiatedVersion = null;
     this.requestIdCounter = 0;
   }
 
@@ -213,24 +1467,24 @@ export class MockMCPHost {
    * Fluent DSL: Call a tool with automatic response handling
    * @param name Tool name
    * @param args Tool arguments
-   * @param options Optional retry and timeout settings
+   * @param options Optional retry, timeout, cancellation and progress settings.
+   * Timed-out attempts are cancelled and retried; aborting `signal` fails immediately.
    */
   async callTool(
     name: string,
     args: Record<string, unknown> = {},
-    options: { timeout?: number; retries?: number } = {}
+    options: RequestOptions & { retries?: number } = {}
   ): Promise<JSONRPCResponse> {
-    const { timeout = 5000, retries = 3 } = options;
+    const { timeout = 5000, retries = 3, signal, onProgress } = options;
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        const response = await Promise.race([
-          this.sendRequest('tools/call', { name, arguments: args }),
-          new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error('Tool call timeout')), timeout)
-          ),
-        ]);
+        const response = await this.sendRequest(
+          'tools/call',
+          { name, arguments: args },
+          { signal, onProgress, timeout }
+        );
 
         if (response.error) {
           throw new Error(response.error.message);
@@ -239,6 +1493,9 @@ export class MockMCPHost {
         return response;
       } catch (error) {
         lastError = error as Error;
+        if (signal?.aborted) {
+          throw lastError;
+        }
         if (attempt < retries) {
           await new Promise(resolve => setTimeout(resolve, 100 * (attempt + 1)));
         }
@@ -250,9 +1507,17 @@ export class MockMCPHost {
 
   /**
    * Fluent DSL: List available tools
+   * @param cursor Cursor from a previous page's `nextCursor`
    */
-  async listTools(): Promise<JSONRPCResponse> {
-    return await this.sendRequest('tools/list');
+  async listTools(cursor?: string): Promise<JSONRPCResponse> {
+    return await this.sendRequest('tools/list', cursor === undefined ? undefined : { cursor });
+  }
+
+  /**
+   * Fluent DSL: List every tool, following `nextCursor` through all pages
+   */
+  async listAllTools(): Promise<MCPTool[]> {
+    return await this.listAll<MCPTool>('tools/list', 'tools');
   }
 
   /**
@@ -265,9 +1530,55 @@ export class MockMCPHost {
 
   /**
    * Fluent DSL: List available resources
+   * @param cursor Cursor from a previous page's `nextCursor`
+   */
+  async listResources(cursor?: string): Promise<JSONRPCResponse> {
+    return await this.sendRequest('resources/list', cursor === undefined ? undefined : { cursor });
+  }
+
+  /**
+   * Fluent DSL: Subscribe to updates of a resource
+   * @param uri Resource URI
    */
-  async listResources(): Promise<JSONRPCResponse> {
-    return await this.sendRequest('resources/list');
+  async subscribeResource(uri: string): Promise<JSONRPCResponse> {
+    return await this.sendRequest('resources/subscribe', { uri });
+  }
+
+  /**
+   * Fluent DSL: Unsubscribe from updates of a resource
+   * @param uri Resource URI
+   */
+  async unsubscribeResource(uri: string): Promise<JSONRPCResponse> {
+    return await this.sendRequest('resources/unsubscribe', { uri });
+  }
+
+  /**
+   * Fluent DSL: Ask the server to send log entries at `level` and above
+   */
+  async setLogLevel(level: LoggingLevel): Promise<JSONRPCResponse> {
+    return await this.sendRequest('logging/setLevel', { level });
+  }
+
+  /**
+   * Fluent DSL: List every resource, following `nextCursor` through all pages
+   */
+  async listAllResources(): Promise<MCPResource[]> {
+    return await this.listAll<MCPResource>('resources/list', 'resources');
+  }
+
+  /**
+   * Fluent DSL: List available resource templates
+   * @param cursor Cursor from a previous page's `nextCursor`
+   */
+  async listResourceTemplates(cursor?: string): Promise<JSONRPCResponse> {
+    return await this.sendRequest('resources/templates/list', cursor === undefined ? undefined : { cursor });
+  }
+
+  /**
+   * Fluent DSL: List every resource template, following `nextCursor` through all pages
+   */
+  async listAllResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    return await this.listAll<MCPResourceTemplate>('resources/templates/list', 'resourceTemplates');
   }
 
   /**
@@ -281,9 +1592,47 @@ export class MockMCPHost {
 
   /**
    * Fluent DSL: List available prompts
+   * @param cursor Cursor from a previous page's `nextCursor`
    */
-  async listPrompts(): Promise<JSONRPCResponse> {
-    return await this.sendRequest('prompts/list');
+  async listPrompts(cursor?: string): Promise<JSONRPCResponse> {
+    return await this.sendRequest('prompts/list', cursor === undefined ? undefined : { cursor });
+  }
+
+  /**
+   * Fluent DSL: List every prompt, following `nextCursor` through all pages
+   */
+  async listAllPrompts(): Promise<MCPPrompt[]> {
+    return await this.listAll<MCPPrompt>('prompts/list', 'prompts');
+  }
+
+  /**
+   * Request every page of a list method and concatenate the items.
+   * Throws on an error response or a cursor that repeats.
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    const seen = new Set<string>();
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.sendRequest(method, cursor === undefined ? undefined : { cursor });
+      if (response.error) {
+        throw new Error(`${method} failed: ${response.error.message}`);
+      }
+
+      const result = response.result as Record<string, unknown> & { nextCursor?: string };
+      items.push(...((result[key] as T[] | undefined) ?? []));
+
+      cursor = result.nextCursor;
+      if (cursor !== undefined) {
+        if (seen.has(cursor)) {
+          throw new Error(`${method} returned the cursor ${JSON.stringify(cursor)} twice`);
+        }
+        seen.add(cursor);
+      }
+    } while (cursor !== undefined);
+
+    return items;
   }
 
   /**
@@ -308,5 +1657,89 @@ export class MockMCPHost {
       console.log('[MCP Response]', JSON.stringify(response, null, 2));
       return response;
     });
+
+    this.interceptor.onNotification(async (notification, direction) => {
+      console.log(`[MCP Notification ${direction}]`, JSON.stringify(notification, null, 2));
+      return notification;
+    });
+  }
+}
+
+/** Opaque pagination cursor for a list offset */
+function encodeCursor(offset: number): string {
+  return btoa(`offset:${offset}`);
+}
+
+/** Offset encoded in a cursor, or null if the cursor was not issued by encodeCursor */
+function decodeCursor(cursor: unknown): number | null {
+  if (typeof cursor !== 'string') return null;
+  try {
+    const match = /^offset:(\d+)$/.exec(atob(cursor));
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Copy of request params with `_meta.progressToken` set */
+function withProgressToken(params: unknown, token: string | number): Record<string, unknown> {
+  const base = (params ?? {}) as Record<string, unknown>;
+  const meta = (base._meta ?? {}) as Record<string, unknown>;
+  return { ...base, _meta: { ...meta, progressToken: token } };
+}
+
+function getProgressToken(request: JSONRPCRequest): string | number | undefined {
+  return (request.params as { _meta?: { progressToken?: string | number } } | undefined)?._meta?.progressToken;
+}
+
+function abortReason(signal?: AbortSignal): string {
+  const reason: unknown = signal?.reason;
+  if (reason instanceof Error) return reason.message;
+  return reason === undefined ? 'aborted' : String(reason);
+}
+
+/** Server capability (dotted path into the capabilities object) each client request needs */
+const REQUIRED_SERVER_CAPABILITIES: Array<[prefix: string, capability: string]> = [
+  ['tools/', 'tools'],
+  ['resources/subscribe', 'resources.subscribe'],
+  ['resources/unsubscribe', 'resources.subscribe'],
+  ['resources/', 'resources'],
+  ['prompts/', 'prompts'],
+  ['logging/', 'logging'],
+  ['completion/', 'completions'],
+];
+
+/** Client capability each server request needs */
+const REQUIRED_CLIENT_CAPABILITIES: Record<string, string> = {
+  'roots/list': 'roots',
+  'sampling/createMessage': 'sampling',
+  'elicitation/create': 'elicitation',
+};
+
+function requiredServerCapability(method: string): string | undefined {
+  return REQUIRED_SERVER_CAPABILITIES.find(([prefix]) => method.startsWith(prefix))?.[1];
+}
+
+/** Whether a dotted capability path is present (and not false) in a capabilities object */
+function hasCapability(capabilities: object | null, path: string): boolean {
+  let current: unknown = capabilities;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) return false;
+    current = (current as Record<string, unknown>)[key];
   }
+  return current !== undefined && current !== null && current !== false;
+}
+
+/** Default resource name: the last path segment of the URI */
+function defaultResourceName(uri: string): string {
+  const segment = uri.replace(/[?#].*$/, '').split('/').filter(Boolean).pop();
+  return segment ?? uri;
+}
+
+function toResourceContents(uri: string, body: ResourceBody): ResourceContents {
+  const contents: ResourceContents = { uri };
+  if (body.mimeType !== undefined) contents.mimeType = body.mimeType;
+  if (body.text !== undefined) contents.text = body.text;
+  if (body.blob !== undefined) contents.blob = body.blob;
+  return contents;
 }
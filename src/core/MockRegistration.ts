@@ -0,0 +1,168 @@
+/**
+ * MockRegistration — one mock added with TransportInterceptor.mockResponse()
+ *
+ * Mocks for the same method are tried from the highest priority down, and
+ * newest first within a priority. A mock is skipped when its params matcher
+ * rejects the request or its call limit is used up, and a handler returning
+ * undefined passes the request on. The registration is returned so a mock
+ * can be narrowed and limited by chaining:
+ *
+ * @example
+ * interceptor.mockResponse('tools/call', handler).withParams({ name: 'search' }).once();
+ */
+
+import type { JSONRPCRequest, MockHandler, MockOptions, MockSummary, ParamsMatcher } from '../types';
+
+export class MockRegistration {
+  readonly method: string;
+  readonly handler: MockHandler;
+  /** Registration order, used to break priority ties */
+  readonly sequence: number;
+  private matcher: ParamsMatcher | undefined;
+  private rank: number;
+  private limit: number | undefined;
+  private answered = 0;
+  private isOptional: boolean;
+  private onRemove: (mock: MockRegistration) => void;
+
+  constructor(
+    method: string,
+    handler: MockHandler,
+    options: MockOptions,
+    sequence: number,
+    onRemove: (mock: MockRegistration) => void
+  ) {
+    this.method = method;
+    this.handler = handler;
+    this.sequence = sequence;
+    this.matcher = options.params;
+    this.rank = options.priority ?? 0;
+    this.limit = options.times;
+    this.isOptional = options.optional ?? false;
+    this.onRemove = onRemove;
+  }
+
+  /**
+   * Only answer requests whose params match
+   */
+  withParams(matcher: ParamsMatcher): this {
+    this.matcher = matcher;
+    return this;
+  }
+
+  /**
+   * Try this mock before mocks with a lower priority
+   */
+  withPriority(priority: number): this {
+    this.rank = priority;
+    return this;
+  }
+
+  /**
+   * Answer a single request, then fall through
+   */
+  once(): this {
+    return this.times(1);
+  }
+
+  /**
+   * Answer at most `count` requests, then fall through
+   */
+  times(count: number): this {
+    this.limit = count;
+    return this;
+  }
+
+  /**
+   * Do not report this mock from verifyMocks() when it is never used
+   */
+  optional(): this {
+    this.isOptional = true;
+    return this;
+  }
+
+  /**
+   * Unregister the mock
+   */
+  remove(): void {
+    this.onRemove(this);
+  }
+
+  get priority(): number {
+    return this.rank;
+  }
+
+  /** Call limit, or undefined when unlimited */
+  get maxCalls(): number | undefined {
+    return this.limit;
+  }
+
+  /** Number of requests this mock has answered */
+  get callCount(): number {
+    return this.answered;
+  }
+
+  get required(): boolean {
+    return !this.isOptional;
+  }
+
+  /**
+   * Describe the mock for verification reports
+   */
+  summary(): MockSummary {
+    const summary: MockSummary = { method: this.method, callCount: this.answered };
+    if (this.matcher !== undefined) summary.params = this.matcher;
+    if (this.limit !== undefined) summary.expectedCalls = this.limit;
+    return summary;
+  }
+
+  /**
+   * Whether this mock should be offered the request
+   */
+  accepts(request: JSONRPCRequest): boolean {
+    if (this.method !== '*' && request.method !== this.method) {
+      return false;
+    }
+    if (this.limit !== undefined && this.answered >= this.limit) {
+      return false;
+    }
+    if (this.matcher === undefined) {
+      return true;
+    }
+    return typeof this.matcher === 'function'
+      ? this.matcher(request.params, request)
+      : matchesPartial(this.matcher, request.params);
+  }
+
+  /**
+   * Reserve a call before running the handler, so concurrent requests
+   * cannot overrun the limit. Released again if the handler falls through.
+   */
+  claim(): void {
+    this.answered++;
+  }
+
+  release(): void {
+    this.answered--;
+  }
+}
+
+/**
+ * Whether `actual` contains everything in `expected`
+ */
+export function matchesPartial(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual)
+      && actual.length === expected.length
+      && expected.every((item, i) => matchesPartial(item, actual[i]));
+  }
+  if (typeof expected === 'object' && expected !== null) {
+    if (typeof actual !== 'object' || actual === null || Array.isArray(actual)) {
+      return false;
+    }
+    return Object.entries(expected).every(([key, value]) =>
+      matchesPartial(value, (actual as Record<string, unknown>)[key])
+    );
+  }
+  return expected === actual;
+}
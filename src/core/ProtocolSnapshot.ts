@@ -0,0 +1,201 @@
+/**
+ * ProtocolSnapshot — transcript snapshots of recorded MCP traffic
+ *
+ * formatTranscript() turns recorded traffic into stable, readable text:
+ * - Request ids are renumbered in order of appearance: #1, #2… for client
+ *   requests and #s1, #s2… for requests the server sends. References to them
+ *   (requestId, progressToken) are renumbered to match.
+ * - Volatile fields such as timestamps and session ids are scrubbed.
+ *
+ * protocolMatchers adds toMatchProtocolSnapshot() to Playwright's expect,
+ * comparing the transcript with a file next to the test. Run Playwright with
+ * --update-snapshots to rewrite snapshots that changed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TestInfo } from '@playwright/test';
+import type { JSONRPCMessage, RecordedMessage } from '../types';
+import type { TransportInterceptor } from './TransportInterceptor';
+import type { MockMCPHost } from './MockMCPHost';
+
+export interface ProtocolSnapshotOptions {
+  /** Snapshot name. Default: the test's title, numbered when a test takes several snapshots */
+  name?: string;
+  /** Additional property names whose values are scrubbed */
+  scrub?: string[];
+}
+
+/** Property names whose values change from run to run */
+export const VOLATILE_FIELDS = ['timestamp', 'sessionId', 'date'];
+
+const SCRUBBED = '[scrubbed]';
+
+/** Properties that refer to a request id */
+const ID_REFERENCES = ['requestId', 'progressToken'];
+
+/**
+ * Render recorded traffic as a transcript
+ */
+export function formatTranscript(traffic: RecordedMessage[], options: Pick<ProtocolSnapshotOptions, 'scrub'> = {}): string {
+  const scrub = new Set([...VOLATILE_FIELDS, ...(options.scrub ?? [])]);
+  const clientIds = new Map<unknown, string>();
+  const serverIds = new Map<unknown, string>();
+
+  // Client requests travel outgoing, server requests incoming; responses the other way
+  const idFor = (message: JSONRPCMessage, direction: RecordedMessage['direction']): string => {
+    const isRequest = 'method' in message;
+    const fromClient = (direction === 'outgoing') === isRequest;
+    const ids = fromClient ? clientIds : serverIds;
+    const id = (message as { id: unknown }).id;
+    if (!ids.has(id)) {
+      ids.set(id, `${fromClient ? '' : 's'}${ids.size + 1}`);
+    }
+    return `#${ids.get(id)}`;
+  };
+
+  const normalize = (value: unknown, key?: string): unknown => {
+    if (key !== undefined && scrub.has(key)) {
+      return SCRUBBED;
+    }
+    if (key !== undefined && ID_REFERENCES.includes(key) && (clientIds.has(value) || serverIds.has(value))) {
+      return `#${clientIds.get(value) ?? serverIds.get(value)}`;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => normalize(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, normalize(v, k)]));
+    }
+    return value;
+  };
+
+  const lines: string[] = [];
+  for (const { message, direction } of traffic) {
+    const arrow = direction === 'outgoing' ? '→' : '←';
+    let heading: string;
+    let body: unknown;
+
+    if ('method' in message && 'id' in message) {
+      heading = `${arrow} request ${idFor(message, direction)} ${message.method}`;
+      body = message.params;
+    } else if ('method' in message) {
+      heading = `${arrow} notification ${message.method}`;
+      body = message.params;
+    } else {
+      heading = `${arrow} response ${idFor(message, direction)}`;
+      const { jsonrpc: _version, id: _id, ...rest } = message;
+      body = rest;
+    }
+
+    lines.push(heading);
+    if (body !== undefined) {
+      lines.push(...JSON.stringify(normalize(body), null, 2).split('\n').map(line => `  ${line}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+type SnapshotSubject = MockMCPHost | TransportInterceptor | RecordedMessage[];
+
+function trafficOf(subject: SnapshotSubject): RecordedMessage[] {
+  if (Array.isArray(subject)) {
+    return subject;
+  }
+  if ('getInterceptor' in subject) {
+    return subject.getInterceptor().getRecordedTraffic();
+  }
+  return subject.getRecordedTraffic();
+}
+
+/** Snapshots taken so far by each test, to number unnamed ones */
+const snapshotCounts = new WeakMap<object, number>();
+
+/**
+ * Custom matchers for Playwright's expect
+ *
+ * @example
+ * import { expect as baseExpect } from '@playwright/test';
+ * const expect = baseExpect.extend(protocolMatchers);
+ *
+ * expect(host).toMatchProtocolSnapshot();
+ */
+export const protocolMatchers = {
+  toMatchProtocolSnapshot(
+    this: { isNot: boolean },
+    received: SnapshotSubject,
+    options: ProtocolSnapshotOptions = {}
+  ): { pass: boolean; message: () => string; name: string } {
+    const testInfo = currentTestInfo();
+    const count = (snapshotCounts.get(testInfo) ?? 0) + 1;
+    snapshotCounts.set(testInfo, count);
+
+    const name = options.name ?? `${testInfo.titlePath.slice(1).join(' ')}${count > 1 ? ` ${count}` : ''}`;
+    const file = path.join(
+      path.dirname(testInfo.file),
+      `${path.basename(testInfo.file)}-snapshots`,
+      `${sanitize(name)}.transcript`
+    );
+    const actual = formatTranscript(trafficOf(received), options);
+    const update = testInfo.config.updateSnapshots;
+    const result = (pass: boolean, message: string) => ({
+      pass: this.isNot ? !pass : pass,
+      message: () => message,
+      name: 'toMatchProtocolSnapshot',
+    });
+
+    if (!fs.existsSync(file)) {
+      if (update === 'none') {
+        return result(false, `Protocol snapshot ${file} is missing`);
+      }
+      write(file, actual);
+      // Like toMatchSnapshot, a new snapshot only passes when updating explicitly
+      return result(update === 'all' || update === 'changed', `Protocol snapshot ${file} was missing, writing actual`);
+    }
+
+    const expected = fs.readFileSync(file, 'utf-8');
+    if (expected === actual) {
+      return result(true, `Expected traffic not to match protocol snapshot ${file}`);
+    }
+    if (update === 'all' || update === 'changed') {
+      write(file, actual);
+      return result(true, `Protocol snapshot ${file} updated`);
+    }
+    return result(false, `Traffic does not match protocol snapshot ${file}\n\n${diff(expected, actual)}`);
+  },
+};
+
+// Lazy-loaded so that importing the library does not load Playwright
+function currentTestInfo(): TestInfo {
+  const { test } = require('@playwright/test') as typeof import('@playwright/test');
+  return test.info();
+}
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+}
+
+function sanitize(name: string): string {
+  return name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase();
+}
+
+/**
+ * Line diff of the first difference, with some context
+ */
+function diff(expected: string, actual: string): string {
+  const a = expected.split('\n');
+  const b = actual.split('\n');
+  let first = 0;
+  while (first < a.length && first < b.length && a[first] === b[first]) {
+    first++;
+  }
+  const context = 3;
+  const start = Math.max(0, first - context);
+  return [
+    ...a.slice(start, first).map(line => `  ${line}`),
+    ...a.slice(first, first + context).map(line => `- ${line}`),
+    ...b.slice(first, first + context).map(line => `+ ${line}`),
+  ].join('\n');
+}
@@ -0,0 +1,70 @@
+/**
+ * Protocol Version — MCP revisions and the features each one introduced
+ *
+ * MCP revisions are dated strings, so they order lexically. Negotiation
+ * follows the lifecycle rules of the spec: the server echoes the client's
+ * requested version if it supports it, and otherwise counter-offers the
+ * latest version it does support.
+ */
+
+/**
+ * Protocol revisions known to this framework, latest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-11-25', '2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * Version-gated protocol features
+ */
+export type ProtocolFeature =
+  | 'batching'
+  | 'toolAnnotations'
+  | 'audioContent'
+  | 'structuredContent'
+  | 'outputSchema'
+  | 'title'
+  | 'elicitation'
+  | 'resourceLinks';
+
+/** First (and, for removed features, last) revision each feature exists in */
+const FEATURE_VERSIONS: Record<ProtocolFeature, { since: string; until?: string }> = {
+  // JSON-RPC batching was added in 2025-03-26 and removed again in 2025-06-18
+  batching: { since: '2025-03-26', until: '2025-03-26' },
+  toolAnnotations: { since: '2025-03-26' },
+  audioContent: { since: '2025-03-26' },
+  structuredContent: { since: '2025-06-18' },
+  outputSchema: { since: '2025-06-18' },
+  title: { since: '2025-06-18' },
+  elicitation: { since: '2025-06-18' },
+  resourceLinks: { since: '2025-06-18' },
+};
+
+/**
+ * Whether a feature is part of the given protocol revision
+ */
+export function supportsFeature(version: string, feature: ProtocolFeature): boolean {
+  const { since, until } = FEATURE_VERSIONS[feature];
+  return version >= since && (until === undefined || version <= until);
+}
+
+/**
+ * Server-side negotiation: accept the requested version if supported,
+ * otherwise counter-offer the latest supported version.
+ */
+export function negotiateProtocolVersion(requested: unknown, supported: string[]): string {
+  if (typeof requested === 'string' && supported.includes(requested)) {
+    return requested;
+  }
+  return latestOf(supported);
+}
+
+/**
+ * The most recent revision in a list
+ */
+export function latestOf(versions: string[]): string {
+  if (versions.length === 0) {
+    throw new Error('At least one protocol version must be supported');
+  }
+  return [...versions].sort().reverse()[0];
+}
@@ -0,0 +1,349 @@
+/**
+ * SchemaGenerator — values generated from a JSON Schema
+ *
+ * Three flavours, all driven by a SeededRandom so they can be reproduced:
+ * - generateValue(): a plausible value that satisfies the schema
+ * - generateBoundaryValue(): a valid value at the edges (min/max lengths
+ *   and ranges, only required or all properties)
+ * - generateInvalidValue(): a valid value with one violation introduced
+ *
+ * Covers the same vocabulary as SchemaValidator, on a best-effort basis:
+ * `pattern` cannot be generated from and is only retried at random.
+ */
+
+import type { JSONSchema } from '../types';
+import { SeededRandom } from './SeededRandom';
+import { compilePattern, resolveRef, validateSchema } from './SchemaValidator';
+
+type Schema = JSONSchema | boolean;
+type Mode = 'valid' | 'boundary';
+
+/** Deeper than this, objects get only required properties and arrays their minimum length */
+const MAX_DEPTH = 6;
+/** Deeper than this, the schema is taken to require an infinitely nested value */
+const MAX_RECURSION = 64;
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const WORDS = ['alpha', 'bravo', 'delta', 'echo', 'lima', 'nova', 'orbit', 'pixel', 'quartz', 'river'];
+
+/**
+ * A plausible value that satisfies `schema`
+ */
+export function generateValue(schema: JSONSchema, random: SeededRandom): unknown {
+  return generate(schema, 'valid', schema, random, 0);
+}
+
+/**
+ * A valid value at the edges of what `schema` allows
+ */
+export function generateBoundaryValue(schema: JSONSchema, random: SeededRandom): unknown {
+  return generate(schema, 'boundary', schema, random, 0);
+}
+
+/**
+ * A value that breaks exactly one rule of `schema`, or undefined when the
+ * schema accepts anything
+ */
+export function generateInvalidValue(schema: JSONSchema, random: SeededRandom): unknown {
+  const valid = generateValue(schema, random);
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const candidate = invalidate(schema, valid, schema, random);
+    if (candidate.mutated && validateSchema(schema, candidate.value).length > 0) {
+      return candidate.value;
+    }
+  }
+  return undefined;
+}
+
+function generate(schema: Schema, mode: Mode, root: JSONSchema, random: SeededRandom, depth: number): unknown {
+  if (schema === true) return random.pick(WORDS);
+  if (schema === false) return null;
+  if (depth > MAX_RECURSION) {
+    throw new Error(`Cannot generate a finite value: the schema still requires nested values ${MAX_RECURSION} levels deep`);
+  }
+
+  const s = resolve(schema, root);
+
+  if ('const' in s) return s.const;
+  if (Array.isArray(s.enum)) {
+    return mode === 'boundary' ? random.pick([s.enum[0], s.enum[s.enum.length - 1]]) : random.pick(s.enum);
+  }
+  if (Array.isArray(s.allOf)) {
+    return generate(mergeAll(s, root), mode, root, random, depth + 1);
+  }
+  for (const key of ['oneOf', 'anyOf'] as const) {
+    if (Array.isArray(s[key]) && (s[key] as Schema[]).length > 0) {
+      const { [key]: branches, ...rest } = s;
+      // Deep down, prefer branches without references so that recursion ends
+      const finite = (branches as Schema[]).filter(branch => !hasRef(branch));
+      const branch = random.pick(depth >= MAX_DEPTH && finite.length > 0 ? finite : branches as Schema[]);
+      return generate(typeof branch === 'boolean' ? branch : { ...rest, ...resolve(branch, root) }, mode, root, random, depth + 1);
+    }
+  }
+
+  switch (pickType(s, random)) {
+    case 'null':
+      return null;
+    case 'boolean':
+      return random.chance(0.5);
+    case 'integer':
+      return generateNumber(s, mode, random, true);
+    case 'number':
+      return generateNumber(s, mode, random, false);
+    case 'array':
+      return generateArray(s, mode, root, random, depth);
+    case 'object':
+      return generateObject(s, mode, root, random, depth);
+    default:
+      return generateString(s, mode, random);
+  }
+}
+
+function generateString(s: JSONSchema, mode: Mode, random: SeededRandom): string {
+  const formatted = generateFormat(s.format, random);
+  if (formatted !== undefined) return formatted;
+
+  const min = typeof s.minLength === 'number' ? s.minLength : 0;
+  const max = typeof s.maxLength === 'number' ? s.maxLength : min + 12;
+  const length = mode === 'boundary' ? random.pick([min, max]) : random.int(min, Math.min(max, min + 12));
+  const make = () => Array.from({ length }, () => random.pick(ALPHABET.split(''))).join('');
+
+  const pattern = typeof s.pattern === 'string' ? compilePattern(s.pattern) : null;
+  if (!pattern) return make();
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const candidate = make();
+    if (pattern.test(candidate)) return candidate;
+  }
+  return make();
+}
+
+function generateFormat(format: unknown, random: SeededRandom): string | undefined {
+  switch (format) {
+    case 'date-time':
+      return new Date(Date.UTC(2024, 0, 1) + random.int(0, 365 * 24 * 3600) * 1000).toISOString();
+    case 'date':
+      return new Date(Date.UTC(2024, 0, 1) + random.int(0, 365) * 86400000).toISOString().slice(0, 10);
+    case 'email':
+      return `${random.pick(WORDS)}@example.com`;
+    case 'uri':
+    case 'url':
+      return `https://example.com/${random.pick(WORDS)}`;
+    case 'uuid':
+      return Array.from({ length: 32 }, () => random.int(0, 15).toString(16))
+        .join('')
+        .replace(/^(.{8})(.{4})(.{4})(.{4})/, '$1-$2-$3-$4-');
+    default:
+      return undefined;
+  }
+}
+
+function generateNumber(s: JSONSchema, mode: Mode, random: SeededRandom, integer: boolean): number {
+  const step = integer ? 1 : 0.5;
+  let low = typeof s.minimum === 'number' ? s.minimum : -1000;
+  let high = typeof s.maximum === 'number' ? s.maximum : 1000;
+  if (typeof s.exclusiveMinimum === 'number') low = Math.max(low, s.exclusiveMinimum + step);
+  if (typeof s.exclusiveMaximum === 'number') high = Math.min(high, s.exclusiveMaximum - step);
+  if (typeof s.minimum !== 'number' && typeof s.exclusiveMinimum !== 'number' && high < low) low = high - 1000;
+  if (typeof s.maximum !== 'number' && typeof s.exclusiveMaximum !== 'number' && high < low) high = low + 1000;
+  if (integer) {
+    low = Math.ceil(low);
+    high = Math.floor(high);
+  }
+
+  let value = mode === 'boundary'
+    ? random.pick([low, high])
+    : integer ? random.int(low, high) : Math.round((low + random.next() * (high - low)) * 100) / 100;
+
+  if (typeof s.multipleOf === 'number' && s.multipleOf > 0) {
+    const multiple = s.multipleOf;
+    value = Math.ceil(value / multiple) * multiple;
+    if (value > high) value -= multiple;
+  }
+  return value;
+}
+
+function generateArray(s: JSONSchema, mode: Mode, root: JSONSchema, random: SeededRandom, depth: number): unknown[] {
+  const prefix = Array.isArray(s.prefixItems) ? (s.prefixItems as Schema[]) : [];
+  const min = Math.max(typeof s.minItems === 'number' ? s.minItems : 0, s.contains !== undefined ? 1 : 0);
+  const max = typeof s.maxItems === 'number' ? s.maxItems : min + 3;
+  const length = depth >= MAX_DEPTH
+    ? min
+    : mode === 'boundary' ? random.pick([min, max]) : random.int(min, Math.min(max, min + 3));
+
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) {
+    const itemSchema = i < prefix.length ? prefix[i] : (s.items as Schema | undefined) ?? true;
+    let item = generate(itemSchema, mode, root, random, depth + 1);
+    if (s.uniqueItems === true) {
+      const duplicate = () => items.some(other => JSON.stringify(other) === JSON.stringify(item));
+      for (let retry = 0; retry < 10 && duplicate(); retry++) {
+        item = generate(itemSchema, 'valid', root, random, depth + 1);
+      }
+      // The item schema may allow fewer distinct values than the length picked
+      if (duplicate() && items.length >= min) break;
+    }
+    items.push(item);
+  }
+  if (s.contains !== undefined && items.length > 0) {
+    items[random.int(0, items.length - 1)] = generate(s.contains as Schema, mode, root, random, depth + 1);
+  }
+  return items;
+}
+
+function generateObject(
+  s: JSONSchema,
+  mode: Mode,
+  root: JSONSchema,
+  random: SeededRandom,
+  depth: number
+): Record<string, unknown> {
+  const properties = isObject(s.properties) ? (s.properties as Record<string, Schema>) : {};
+  const required = new Set(Array.isArray(s.required) ? (s.required as string[]) : []);
+  const minProperties = typeof s.minProperties === 'number' ? s.minProperties : 0;
+  const everything = mode === 'boundary' && random.chance(0.5);
+
+  const value: Record<string, unknown> = {};
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    const include = required.has(key)
+      || (depth < MAX_DEPTH && (mode === 'valid' ? random.chance(0.5) : everything));
+    if (include) {
+      value[key] = generate(propertySchema, mode, root, random, depth + 1);
+    }
+  }
+  // Required properties without a schema of their own
+  for (const key of required) {
+    if (!hasOwn(value, key)) value[key] = random.pick(WORDS);
+  }
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (Object.keys(value).length >= minProperties) break;
+    if (!hasOwn(value, key)) value[key] = generate(propertySchema, mode, root, random, depth + 1);
+  }
+  return value;
+}
+
+/**
+ * Break one rule of `schema` in `value`, here or in a nested property
+ */
+function invalidate(
+  schema: Schema,
+  value: unknown,
+  root: JSONSchema,
+  random: SeededRandom
+): { value: unknown; mutated: boolean } {
+  if (typeof schema === 'boolean') {
+    return { value, mutated: false };
+  }
+  const s = resolve(schema, root);
+  const mutations: Array<() => unknown> = [];
+
+  if (s.type !== undefined) {
+    mutations.push(() => wrongType(s.type));
+  }
+  if (Array.isArray(s.enum) || 'const' in s) {
+    mutations.push(() => '__not_allowed__');
+  }
+  if (typeof value === 'number') {
+    if (typeof s.minimum === 'number') mutations.push(() => (s.minimum as number) - 1);
+    if (typeof s.maximum === 'number') mutations.push(() => (s.maximum as number) + 1);
+    if (s.type === 'integer') mutations.push(() => value + 0.5);
+  }
+  if (typeof value === 'string') {
+    if (typeof s.minLength === 'number' && s.minLength > 0) mutations.push(() => value.slice(0, s.minLength as number - 1));
+    if (typeof s.maxLength === 'number') mutations.push(() => 'x'.repeat(s.maxLength as number + 1));
+  }
+  if (isObject(value)) {
+    const required = Array.isArray(s.required) ? (s.required as string[]).filter(key => hasOwn(value, key)) : [];
+    if (required.length > 0) {
+      mutations.push(() => {
+        const { [random.pick(required)]: _dropped, ...rest } = value;
+        return rest;
+      });
+    }
+    if (s.additionalProperties === false) {
+      mutations.push(() => ({ ...value, __unexpected__: true }));
+    }
+    const properties = isObject(s.properties) ? (s.properties as Record<string, Schema>) : {};
+    const nested = Object.keys(value).filter(key => hasOwn(properties, key));
+    if (nested.length > 0) {
+      mutations.push(() => {
+        const key = random.pick(nested);
+        const inner = invalidate(properties[key], value[key], root, random);
+        return inner.mutated ? { ...value, [key]: inner.value } : value;
+      });
+    }
+  }
+  if (Array.isArray(value) && value.length > 0 && s.items !== undefined) {
+    mutations.push(() => {
+      const index = random.int(0, value.length - 1);
+      const inner = invalidate(s.items as Schema, value[index], root, random);
+      return value.map((item, i) => (i === index ? inner.value : item));
+    });
+  }
+
+  if (mutations.length === 0) {
+    return { value, mutated: false };
+  }
+  return { value: random.pick(mutations)(), mutated: true };
+}
+
+function wrongType(type: unknown): unknown {
+  const types = Array.isArray(type) ? type : [type];
+  if (!types.includes('string')) return 'not-a-' + String(types[0]);
+  if (!types.includes('number') && !types.includes('integer')) return 42;
+  if (!types.includes('boolean')) return true;
+  return null;
+}
+
+function pickType(s: JSONSchema, random: SeededRandom): string {
+  if (Array.isArray(s.type) && s.type.length > 0) return random.pick(s.type as string[]);
+  if (typeof s.type === 'string') return s.type;
+  if (s.properties !== undefined || s.required !== undefined) return 'object';
+  if (s.items !== undefined || s.prefixItems !== undefined) return 'array';
+  if (s.minimum !== undefined || s.maximum !== undefined || s.multipleOf !== undefined) return 'number';
+  return 'string';
+}
+
+function resolve(schema: JSONSchema, root: JSONSchema): JSONSchema {
+  let current = schema;
+  // Follow chains of references, guarding against cycles
+  for (let hops = 0; typeof current.$ref === 'string' && hops < 10; hops++) {
+    const { $ref, ...rest } = current;
+    const target = resolveRef(root, $ref as string);
+    current = { ...(isObject(target) ? target : {}), ...rest };
+  }
+  return current;
+}
+
+/**
+ * Fold allOf branches into one schema, combining properties and required
+ */
+function mergeAll(s: JSONSchema, root: JSONSchema): JSONSchema {
+  const { allOf, ...rest } = s;
+  let merged: JSONSchema = rest;
+  for (const branch of allOf as Schema[]) {
+    if (typeof branch === 'boolean') continue;
+    const part = resolve(branch, root);
+    const properties = merged.properties || part.properties
+      ? { properties: { ...(merged.properties as object | undefined), ...(part.properties as object | undefined) } }
+      : {};
+    const required = merged.required || part.required
+      ? { required: [...((merged.required as string[] | undefined) ?? []), ...((part.required as string[] | undefined) ?? [])] }
+      : {};
+    merged = { ...merged, ...part, ...properties, ...required };
+  }
+  return merged;
+}
+
+/** Whether a schema contains a $ref anywhere */
+function hasRef(schema: unknown): boolean {
+  if (Array.isArray(schema)) return schema.some(hasRef);
+  if (!isObject(schema)) return false;
+  return typeof schema.$ref === 'string' || Object.values(schema).some(hasRef);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
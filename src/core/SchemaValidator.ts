@@ -0,0 +1,385 @@
+/**
+ * SchemaValidator — a JSON Schema (draft 2020-12) validator for tool schemas
+ *
+ * Covers the subset of the vocabulary tool schemas use in practice:
+ * - Types: type (including "integer" and type arrays), enum, const
+ * - Objects: properties, required, additionalProperties, patternProperties,
+ *   propertyNames, minProperties, maxProperties, dependentRequired
+ * - Arrays: items, prefixItems, contains, minItems, maxItems, uniqueItems
+ * - Strings: minLength, maxLength, pattern
+ * - Numbers: minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf
+ * - Composition: allOf, anyOf, oneOf, not, if/then/else
+ * - References: local $ref ("#", "#/$defs/...", any JSON pointer into the root)
+ *
+ * Annotations (title, description, format, default, examples) are ignored.
+ * Every error carries the JSON pointer of the offending value.
+ */
+
+import type { JSONSchema } from '../types';
+
+export interface SchemaError {
+  /** JSON pointer to the invalid value; '' is the root */
+  path: string;
+  /** Schema keyword that failed */
+  keyword: string;
+  message: string;
+}
+
+type Schema = JSONSchema | boolean;
+
+/**
+ * Validate a value against a schema
+ * @returns The errors found; empty if the value is valid
+ */
+export function validateSchema(schema: JSONSchema, value: unknown): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validate(schema, value, '', schema, errors);
+  return errors;
+}
+
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a schema pattern, or null if it is not a valid regular expression.
+ * Patterns are ECMA-262 regular expressions; the `u` flag is used when the
+ * pattern allows it, since identity escapes such as `\@` are only valid without.
+ */
+export function compilePattern(source: string): RegExp | null {
+  let pattern = patternCache.get(source);
+  if (pattern === undefined) {
+    pattern = tryRegExp(source, 'u') ?? tryRegExp(source, '');
+    patternCache.set(source, pattern);
+  }
+  return pattern;
+}
+
+function tryRegExp(source: string, flags: string): RegExp | null {
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    return null;
+  }
+}
+
+// References being resolved, as "$ref\0path"; validation is synchronous
+const resolving = new Set<string>();
+
+function validate(schema: Schema, value: unknown, path: string, root: JSONSchema, errors: SchemaError[]): void {
+  const fail = (keyword: string, message: string, at = path) => errors.push({ path: at, keyword, message });
+
+  if (schema === true) return;
+  if (schema === false) {
+    fail('false', 'no value is allowed here');
+    return;
+  }
+
+  const s = schema as Record<string, unknown>;
+
+  if (typeof s.$ref === 'string') {
+    const target = resolveRef(root, s.$ref);
+    // A reference already being resolved at this path is a cycle that adds no constraint
+    const key = `${s.$ref}\u0000${path}`;
+    if (target === undefined) {
+      fail('$ref', `cannot resolve reference ${s.$ref}`);
+    } else if (!resolving.has(key)) {
+      resolving.add(key);
+      try {
+        validate(target, value, path, root, errors);
+      } finally {
+        resolving.delete(key);
+      }
+    }
+  }
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? (s.type as string[]) : [s.type as string];
+    if (!types.some(type => hasType(value, type))) {
+      fail('type', `expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      // Further keywords would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (s.enum !== undefined && !(s.enum as unknown[]).some(option => deepEqual(option, value))) {
+    fail('enum', `must be one of ${(s.enum as unknown[]).map(o => JSON.stringify(o)).join(', ')}`);
+  }
+  if ('const' in s && !deepEqual(s.const, value)) {
+    fail('const', `must be ${JSON.stringify(s.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = Array.from(value).length;
+    if (typeof s.minLength === 'number' && length < s.minLength) {
+      fail('minLength', `must be at least ${s.minLength} characters`);
+    }
+    if (typeof s.maxLength === 'number' && length > s.maxLength) {
+      fail('maxLength', `must be at most ${s.maxLength} characters`);
+    }
+    if (typeof s.pattern === 'string') {
+      const pattern = compilePattern(s.pattern);
+      if (!pattern) {
+        fail('pattern', `pattern ${s.pattern} is not a valid regular expression`);
+      } else if (!pattern.test(value)) {
+        fail('pattern', `must match ${s.pattern}`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof s.minimum === 'number' && value < s.minimum) {
+      fail('minimum', `must be >= ${s.minimum}`);
+    }
+    if (typeof s.maximum === 'number' && value > s.maximum) {
+      fail('maximum', `must be <= ${s.maximum}`);
+    }
+    if (typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be > ${s.exclusiveMinimum}`);
+    }
+    if (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be < ${s.exclusiveMaximum}`);
+    }
+    if (typeof s.multipleOf === 'number' && !isMultipleOf(value, s.multipleOf)) {
+      fail('multipleOf', `must be a multiple of ${s.multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    validateArray(s, value, path, root, errors, fail);
+  } else if (isObject(value)) {
+    validateObject(s, value, path, root, errors, fail);
+  }
+
+  validateComposition(s, value, path, root, errors, fail);
+}
+
+function validateArray(
+  s: Record<string, unknown>,
+  value: unknown[],
+  path: string,
+  root: JSONSchema,
+  errors: SchemaError[],
+  fail: (keyword: string, message: string, at?: string) => void
+): void {
+  if (typeof s.minItems === 'number' && value.length < s.minItems) {
+    fail('minItems', `must have at least ${s.minItems} items`);
+  }
+  if (typeof s.maxItems === 'number' && value.length > s.maxItems) {
+    fail('maxItems', `must have at most ${s.maxItems} items`);
+  }
+  if (s.uniqueItems === true) {
+    for (let i = 1; i < value.length; i++) {
+      if (value.slice(0, i).some(earlier => deepEqual(earlier, value[i]))) {
+        fail('uniqueItems', 'duplicates an earlier item', `${path}/${i}`);
+      }
+    }
+  }
+
+  const prefix = Array.isArray(s.prefixItems) ? (s.prefixItems as Schema[]) : [];
+  prefix.forEach((itemSchema, i) => {
+    if (i < value.length) {
+      validate(itemSchema, value[i], `${path}/${i}`, root, errors);
+    }
+  });
+  if (s.items !== undefined) {
+    for (let i = prefix.length; i < value.length; i++) {
+      validate(s.items as Schema, value[i], `${path}/${i}`, root, errors);
+    }
+  }
+
+  if (s.contains !== undefined) {
+    const count = value.filter((item, i) => matches(s.contains as Schema, item, `${path}/${i}`, root)).length;
+    const min = typeof s.minContains === 'number' ? s.minContains : 1;
+    if (count < min) {
+      fail('contains', `must contain at least ${min} matching item(s)`);
+    }
+    if (typeof s.maxContains === 'number' && count > s.maxContains) {
+      fail('maxContains', `must contain at most ${s.maxContains} matching item(s)`);
+    }
+  }
+}
+
+function validateObject(
+  s: Record<string, unknown>,
+  value: Record<string, unknown>,
+  path: string,
+  root: JSONSchema,
+  errors: SchemaError[],
+  fail: (keyword: string, message: string, at?: string) => void
+): void {
+  const keys = Object.keys(value);
+
+  if (Array.isArray(s.required)) {
+    for (const key of s.required as string[]) {
+      if (!hasOwn(value, key)) {
+        fail('required', `missing required property "${key}"`);
+      }
+    }
+  }
+  if (typeof s.minProperties === 'number' && keys.length < s.minProperties) {
+    fail('minProperties', `must have at least ${s.minProperties} properties`);
+  }
+  if (typeof s.maxProperties === 'number' && keys.length > s.maxProperties) {
+    fail('maxProperties', `must have at most ${s.maxProperties} properties`);
+  }
+  if (isObject(s.dependentRequired)) {
+    for (const [key, dependents] of Object.entries(s.dependentRequired)) {
+      if (!hasOwn(value, key)) continue;
+      for (const dependent of dependents as string[]) {
+        if (!hasOwn(value, dependent)) {
+          fail('dependentRequired', `property "${dependent}" is required when "${key}" is present`);
+        }
+      }
+    }
+  }
+
+  const properties = isObject(s.properties) ? (s.properties as Record<string, Schema>) : {};
+  const patterns: Array<readonly [RegExp, Schema]> = [];
+  for (const [source, schema] of Object.entries(isObject(s.patternProperties) ? s.patternProperties : {})) {
+    const pattern = compilePattern(source);
+    if (pattern) {
+      patterns.push([pattern, schema as Schema]);
+    } else {
+      fail('patternProperties', `pattern ${source} is not a valid regular expression`);
+    }
+  }
+
+  for (const key of keys) {
+    const at = `${path}/${escapePointer(key)}`;
+    let matched = false;
+
+    if (hasOwn(properties, key)) {
+      matched = true;
+      validate(properties[key], value[key], at, root, errors);
+    }
+    for (const [pattern, schema] of patterns) {
+      if (pattern.test(key)) {
+        matched = true;
+        validate(schema, value[key], at, root, errors);
+      }
+    }
+
+    if (!matched && s.additionalProperties !== undefined) {
+      if (s.additionalProperties === false) {
+        fail('additionalProperties', `unexpected property "${key}"`, at);
+      } else {
+        validate(s.additionalProperties as Schema, value[key], at, root, errors);
+      }
+    }
+
+    if (s.propertyNames !== undefined && !matches(s.propertyNames as Schema, key, at, root)) {
+      fail('propertyNames', `property name "${key}" is not allowed`, at);
+    }
+  }
+}
+
+function validateComposition(
+  s: Record<string, unknown>,
+  value: unknown,
+  path: string,
+  root: JSONSchema,
+  errors: SchemaError[],
+  fail: (keyword: string, message: string, at?: string) => void
+): void {
+  if (Array.isArray(s.allOf)) {
+    for (const sub of s.allOf as Schema[]) {
+      validate(sub, value, path, root, errors);
+    }
+  }
+  if (Array.isArray(s.anyOf) && !(s.anyOf as Schema[]).some(sub => matches(sub, value, path, root))) {
+    fail('anyOf', 'must match at least one schema in anyOf');
+  }
+  if (Array.isArray(s.oneOf)) {
+    const count = (s.oneOf as Schema[]).filter(sub => matches(sub, value, path, root)).length;
+    if (count !== 1) {
+      fail('oneOf', `must match exactly one schema in oneOf (matched ${count})`);
+    }
+  }
+  if (s.not !== undefined && matches(s.not as Schema, value, path, root)) {
+    fail('not', 'must not match the schema in not');
+  }
+  if (s.if !== undefined) {
+    const branch = matches(s.if as Schema, value, path, root) ? s.then : s.else;
+    if (branch !== undefined) {
+      validate(branch as Schema, value, path, root, errors);
+    }
+  }
+}
+
+/** Whether a value matches a (sub)schema, without collecting errors */
+function matches(schema: Schema, value: unknown, path: string, root: JSONSchema): boolean {
+  const errors: SchemaError[] = [];
+  validate(schema, value, path, root, errors);
+  return errors.length === 0;
+}
+
+/**
+ * Resolve a local $ref against the root schema
+ */
+export function resolveRef(root: JSONSchema, ref: string): JSONSchema | boolean | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+  let current: unknown = root;
+  for (const token of ref.slice(1).split('/').slice(1)) {
+    if (!isObject(current) && !Array.isArray(current)) return undefined;
+    current = (current as Record<string, unknown>)[decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  return isObject(current) || typeof current === 'boolean' ? (current as Schema) : undefined;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+    default:
+      return false;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
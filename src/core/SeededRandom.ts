@@ -0,0 +1,49 @@
+/**
+ * SeededRandom — a small deterministic pseudo-random number generator
+ *
+ * mulberry32: fast, 32 bits of state, and good enough for test data and
+ * fault injection. The same seed always yields the same sequence, so a
+ * failing run can be reproduced by reusing its seed.
+ */
+
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max], both inclusive
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return probability >= 1 || this.next() < probability;
+  }
+
+  /**
+   * Uniformly chosen element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * StdioTransport — Drive a real MCP server process over stdio.
+ *
+ * Spawns the server command and speaks newline-delimited JSON-RPC on its
+ * stdin/stdout, as described by the MCP stdio transport. Responses are
+ * correlated to their requests by id; everything else the server sends
+ * (notifications, server-initiated requests) is handed to `onMessage` handlers.
+ *
+ * Pass an instance as `MockMCPHostConfig.transport` and every request that
+ * no mock answers is forwarded to the server.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import type {
+  JSONRPCRequest,
+  JSONRPCResponse,
+  JSONRPCNotification,
+  JSONRPCMessage,
+  MCPTransport,
+} from '../types';
+
+export interface StdioTransportOptions {
+  /** Command that starts the MCP server */
+  command: string;
+  /** Arguments for the command */
+  args?: string[];
+  /** Extra environment variables (merged over the current environment) */
+  env?: Record<string, string>;
+  /** Working directory for the server process */
+  cwd?: string;
+  /** Log framing problems and forward the server's stderr to this process */
+  debug?: boolean;
+  /** How long close() waits for the process to exit before killing it, in ms. Default: 2000 */
+  closeTimeout?: number;
+}
+
+interface PendingRequest {
+  resolve: (response: JSONRPCResponse) => void;
+  reject: (error: Error) => void;
+}
+
+export class StdioTransport implements MCPTransport {
+  private options: StdioTransportOptions;
+  private child: ChildProcess | null = null;
+  private starting: Promise<void> | null = null;
+  private buffer = '';
+  private stderr = '';
+  private pending: Map<string | number, PendingRequest> = new Map();
+  private handlers: Array<(message: JSONRPCMessage) => void> = [];
+
+  constructor(options: StdioTransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Spawn the server process. Called lazily by the first request or send.
+   */
+  async start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = new Promise<void>((resolve, reject) => {
+        const child = spawn(this.options.command, this.options.args ?? [], {
+          cwd: this.options.cwd,
+          env: { ...process.env, ...this.options.env },
+          stdio: ['pipe', 'pipe', 'pipe'],
+        });
+
+        child.once('spawn', () => resolve());
+        child.once('error', (error) => {
+          // A child that failed to spawn never emits 'exit'
+          if (child.pid === undefined && this.child === child) {
+            this.child = null;
+            this.starting = null;
+          }
+          reject(error);
+          this.failPending(new Error(`MCP server process error: ${error.message}`));
+        });
+        child.once('exit', (code, signal) => {
+          this.child = null;
+          this.failPending(
+            new Error(`MCP server exited (code ${code ?? 'null'}, signal ${signal ?? 'null'})`)
+          );
+        });
+
+        child.stdout?.setEncoding('utf-8');
+        child.stdout?.on('data', (chunk: string) => this.handleData(chunk));
+
+        child.stderr?.setEncoding('utf-8');
+        child.stderr?.on('data', (chunk: string) => {
+          this.stderr += chunk;
+          if (this.options.debug) {
+            process.stderr.write(chunk);
+          }
+        });
+
+        this.child = child;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * Send a request and wait for the response with the same id.
+   */
+  async request(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+    await this.start();
+    if (this.pending.has(request.id)) {
+      throw new Error(`A request with id ${JSON.stringify(request.id)} is already in flight`);
+    }
+
+    const response = new Promise<JSONRPCResponse>((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+    });
+
+    try {
+      await this.write(request);
+    } catch (error) {
+      this.pending.delete(request.id);
+      throw error;
+    }
+
+    return response;
+  }
+
+  /**
+   * Send a JSON-RPC batch as one line and wait for the responses to its
+   * requests. Responses are returned in the order they arrive.
+   */
+  async requestBatch(messages: Array<JSONRPCRequest | JSONRPCNotification>): Promise<JSONRPCResponse[]> {
+    await this.start();
+    const ids = messages.flatMap(message => ('id' in message ? [message.id] : []));
+    for (const id of ids) {
+      if (this.pending.has(id)) {
+        throw new Error(`A request with id ${JSON.stringify(id)} is already in flight`);
+      }
+    }
+
+    const responses: JSONRPCResponse[] = [];
+    const settled = Promise.all(ids.map(id => new Promise<void>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: (response) => {
+          responses.push(response);
+          resolve();
+        },
+        reject,
+      });
+    })));
+
+    try {
+      await this.write(messages);
+    } catch (error) {
+      ids.forEach(id => this.pending.delete(id));
+      throw error;
+    }
+
+    await settled;
+    return responses;
+  }
+
+  /**
+   * Send a message without waiting for a reply (notifications, responses to server requests).
+   */
+  async send(message: unknown): Promise<void> {
+    await this.start();
+    await this.write(message);
+  }
+
+  /**
+   * Register a handler for server-initiated messages.
+   */
+  onMessage(handler: (message: JSONRPCMessage) => void): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Everything the server has written to stderr so far.
+   */
+  getStderr(): string {
+    return this.stderr;
+  }
+
+  /**
+   * Close stdin and wait for the server to exit, killing it if it does not.
+   */
+  async close(): Promise<void> {
+    const child = this.child;
+    this.starting = null;
+    if (!child || child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+      this.child = null;
+      this.failPending(new Error('Transport closed'));
+      return;
+    }
+
+    const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+    child.stdin?.end();
+
+    const timeout = this.options.closeTimeout ?? 2000;
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = await Promise.race([
+      exited.then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), timeout);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (timedOut) {
+      child.kill('SIGKILL');
+      await exited;
+    }
+
+    this.failPending(new Error('Transport closed'));
+  }
+
+  // ── Private ──────────────────────────────────────────────────
+
+  private write(message: unknown): Promise<void> {
+    const stdin = this.child?.stdin;
+    if (!stdin || stdin.destroyed) {
+      return Promise.reject(new Error('MCP server process is not running'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      stdin.write(JSON.stringify(message) + '\n', (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Split stdout into newline-delimited messages. A trailing partial line stays buffered.
+   */
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line.trim()) {
+        this.handleLine(line);
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  private handleLine(line: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      if (this.options.debug) {
+        console.log('[StdioTransport] Ignoring non-JSON output:', line);
+      }
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const message of messages as JSONRPCMessage[]) {
+      this.dispatch(message);
+    }
+  }
+
+  private dispatch(message: JSONRPCMessage): void {
+    if ('id' in message && !('method' in message)) {
+      const pending = this.pending.get(message.id);
+      if (pending) {
+        this.pending.delete(message.id);
+        pending.resolve(message);
+        return;
+      }
+      if (this.options.debug) {
+        console.log('[StdioTransport] Response for unknown id:', JSON.stringify(message));
+      }
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      handler(message);
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
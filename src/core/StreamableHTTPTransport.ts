@@ -0,0 +1,455 @@
+/**
+ * StreamableHTTPTransport — Reach a real MCP server over Streamable HTTP.
+ *
+ * Every client message is POSTed to the server endpoint. The server answers
+ * either with a plain JSON body or with an SSE stream carrying the response
+ * plus any notifications and requests it wants to send along the way.
+ *
+ * The transport follows the session rules of the spec:
+ * - the `Mcp-Session-Id` returned by initialize is sent on every later request
+ * - a dropped SSE stream is resumed with GET and `Last-Event-ID`
+ * - close() terminates the session with DELETE
+ *
+ * Pass an instance as `MockMCPHostConfig.transport`; unmocked requests are
+ * forwarded to the server and still pass through the TransportInterceptor.
+ */
+
+import type {
+  JSONRPCRequest,
+  JSONRPCResponse,
+  JSONRPCNotification,
+  JSONRPCMessage,
+  MCPTransport,
+} from '../types';
+
+export interface StreamableHTTPTransportOptions {
+  /** MCP endpoint URL, e.g. http://localhost:3000/mcp */
+  url: string;
+  /** Extra headers sent with every HTTP request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** How many times to resume a dropped SSE stream before giving up. Default: 2 */
+  maxReconnects?: number;
+  /** Log stream handling details */
+  debug?: boolean;
+}
+
+interface PendingRequest {
+  resolve: (response: JSONRPCResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface SSEEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+const PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+
+export class StreamableHTTPTransport implements MCPTransport {
+  private options: StreamableHTTPTransportOptions;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private pending: Map<string | number, PendingRequest> = new Map();
+  private handlers: Array<(message: JSONRPCMessage) => void> = [];
+  private controllers: Set<AbortController> = new Set();
+
+  constructor(options: StreamableHTTPTransportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * POST a request and resolve with its response, whether it arrives as JSON or over SSE.
+   */
+  async request(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+    if (this.pending.has(request.id)) {
+      throw new Error(`A request with id ${JSON.stringify(request.id)} is already in flight`);
+    }
+
+    const response = new Promise<JSONRPCResponse>((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+    });
+    // Avoid an unhandled rejection if the POST itself fails first
+    response.catch(() => undefined);
+
+    try {
+      await this.post(request, [request.id]);
+    } catch (error) {
+      this.pending.delete(request.id);
+      throw error;
+    }
+
+    const settled = await response;
+    if (request.method === 'initialize') {
+      const version = (settled.result as { protocolVersion?: string } | undefined)?.protocolVersion;
+      this.protocolVersion = version ?? null;
+    }
+    return settled;
+  }
+
+  /**
+   * POST a notification or a response to a server request. The server acknowledges with 202.
+   */
+  async send(message: unknown): Promise<void> {
+    await this.post(message, []);
+  }
+
+  /**
+   * POST a JSON-RPC batch and resolve with the responses to its requests, in
+   * the order they arrive, whether as a JSON array or over SSE.
+   */
+  async requestBatch(messages: Array<JSONRPCRequest | JSONRPCNotification>): Promise<JSONRPCResponse[]> {
+    const ids = messages.flatMap(message => ('id' in message ? [message.id] : []));
+    for (const id of ids) {
+      if (this.pending.has(id)) {
+        throw new Error(`A request with id ${JSON.stringify(id)} is already in flight`);
+      }
+    }
+
+    const responses: JSONRPCResponse[] = [];
+    const settled = Promise.all(ids.map(id => new Promise<void>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: (response) => {
+          responses.push(response);
+          resolve();
+        },
+        reject,
+      });
+    })));
+    // Avoid an unhandled rejection if the POST itself fails first
+    settled.catch(() => undefined);
+
+    try {
+      await this.post(messages, ids);
+    } catch (error) {
+      ids.forEach(id => this.pending.delete(id));
+      throw error;
+    }
+
+    await settled;
+    return responses;
+  }
+
+  /**
+   * Register a handler for server-initiated messages.
+   */
+  onMessage(handler: (message: JSONRPCMessage) => void): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Open the standalone GET stream the server can use for unsolicited messages.
+   * Resolves to false if the server does not offer one (405).
+   */
+  async openEventStream(): Promise<boolean> {
+    const controller = this.track(new AbortController());
+    const res = await fetch(this.options.url, {
+      method: 'GET',
+      headers: this.buildHeaders({ accept: 'text/event-stream' }),
+      signal: controller.signal,
+    });
+
+    if (res.status === 405) {
+      this.controllers.delete(controller);
+      return false;
+    }
+    if (!res.ok || !res.body) {
+      this.controllers.delete(controller);
+      throw new Error(`Failed to open SSE stream: HTTP ${res.status}`);
+    }
+
+    this.readInBackground(res.body, controller);
+    return true;
+  }
+
+  /**
+   * Session id assigned by the server during initialize, if any.
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  /**
+   * Abort open streams and terminate the session with DELETE.
+   */
+  async close(): Promise<void> {
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    this.controllers.clear();
+
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error('Transport closed'));
+    }
+    this.pending.clear();
+
+    if (this.sessionId) {
+      const headers = this.buildHeaders({});
+      this.sessionId = null;
+      try {
+        // A 405 means the server does not allow client-initiated termination
+        await fetch(this.options.url, { method: 'DELETE', headers });
+      } catch (error) {
+        if (this.options.debug) {
+          console.log('[StreamableHTTPTransport] Session termination failed:', error);
+        }
+      }
+    }
+  }
+
+  // ── Private ──────────────────────────────────────────────────
+
+  /**
+   * POST a message and process whatever the server sends back. An SSE body is
+   * read until the responses with the `awaitIds` have arrived.
+   */
+  private async post(message: unknown, awaitIds: Array<string | number>): Promise<void> {
+    const controller = this.track(new AbortController());
+    // Set when the body outlives this call; the stream then releases the controller
+    let background = false;
+
+    try {
+      const res = await fetch(this.options.url, {
+        method: 'POST',
+        headers: this.buildHeaders({
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+        }),
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+
+      const sessionId = res.headers.get(SESSION_HEADER);
+      if (sessionId) {
+        this.sessionId = sessionId;
+      }
+
+      if (res.status === 404 && this.sessionId) {
+        this.sessionId = null;
+        throw new Error('MCP session expired (HTTP 404); initialize a new session');
+      }
+
+      const contentType = res.headers.get('content-type') ?? '';
+
+      if (contentType.includes('text/event-stream') && res.body) {
+        if (awaitIds.length === 0) {
+          this.readInBackground(res.body, controller);
+          background = true;
+          return;
+        }
+        await this.readUntilResponse(res.body, awaitIds);
+        return;
+      }
+
+      if (contentType.includes('application/json')) {
+        const body = await res.text();
+        if (body.trim()) {
+          const parsed = JSON.parse(body) as JSONRPCMessage | JSONRPCMessage[];
+          for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+            this.dispatch(item);
+          }
+        }
+        const missing = awaitIds.find(id => this.pending.has(id));
+        if (missing !== undefined) {
+          throw new Error(
+            res.ok
+              ? `JSON body did not contain the response to request ${JSON.stringify(missing)}`
+              : `HTTP ${res.status}: ${body}`
+          );
+        }
+        return;
+      }
+
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+      }
+
+      const missing = awaitIds.find(id => this.pending.has(id));
+      if (missing !== undefined) {
+        throw new Error(`Server accepted request ${JSON.stringify(missing)} without a response body`);
+      }
+    } finally {
+      if (!background) {
+        this.controllers.delete(controller);
+      }
+    }
+  }
+
+  /**
+   * Read an SSE stream nobody waits on, keeping its controller tracked so
+   * that close() can abort it.
+   */
+  private readInBackground(body: ReadableStream<Uint8Array>, controller: AbortController): void {
+    void this.readEventStream(body, () => false)
+      .catch((error) => {
+        if (this.options.debug) {
+          console.log('[StreamableHTTPTransport] Event stream ended:', error);
+        }
+      })
+      .finally(() => this.controllers.delete(controller));
+  }
+
+  /**
+   * Read an SSE stream until the awaited responses arrive, resuming with
+   * Last-Event-ID if the stream closes early.
+   */
+  private async readUntilResponse(body: ReadableStream<Uint8Array>, awaitIds: Array<string | number>): Promise<void> {
+    const done = () => awaitIds.every(id => !this.pending.has(id));
+    let lastEventId = await this.readEventStream(body, done);
+    let reconnects = 0;
+    const maxReconnects = this.options.maxReconnects ?? 2;
+
+    while (!done()) {
+      if (lastEventId === undefined || reconnects >= maxReconnects) {
+        const missing = awaitIds.find(id => this.pending.has(id));
+        throw new Error(`SSE stream closed before the response to request ${JSON.stringify(missing)} arrived`);
+      }
+      reconnects++;
+
+      if (this.options.debug) {
+        console.log(`[StreamableHTTPTransport] Resuming stream after event ${lastEventId}`);
+      }
+
+      const controller = this.track(new AbortController());
+      try {
+        const res = await fetch(this.options.url, {
+          method: 'GET',
+          headers: this.buildHeaders({ accept: 'text/event-stream', 'last-event-id': lastEventId }),
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          throw new Error(`Failed to resume SSE stream: HTTP ${res.status}`);
+        }
+        lastEventId = (await this.readEventStream(res.body, done)) ?? lastEventId;
+      } finally {
+        this.controllers.delete(controller);
+      }
+    }
+  }
+
+  /**
+   * Parse SSE events from a body, dispatching each message. Stops early once
+   * `shouldStop` returns true. Resolves with the last event id seen.
+   */
+  private async readEventStream(
+    body: ReadableStream<Uint8Array>,
+    shouldStop: () => boolean
+  ): Promise<string | undefined> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    // Whether the last chunk ended in a CR, which may be half of a CRLF
+    let afterCarriageReturn = false;
+    let lastEventId: string | undefined;
+
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        const text = decoder.decode(value, { stream: true });
+        // That CR already ended its line, so the LF completing it is dropped
+        const start = afterCarriageReturn && text.startsWith('\n') ? 1 : 0;
+        if (text.length > 0) {
+          afterCarriageReturn = text.endsWith('\r');
+        }
+        buffer += text.slice(start).replace(/\r\n?/g, '\n');
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const event = parseSSEEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+
+          if (event) {
+            if (event.id !== undefined) {
+              lastEventId = event.id;
+            }
+            if (event.event === 'message' && event.data) {
+              const parsed = JSON.parse(event.data) as JSONRPCMessage | JSONRPCMessage[];
+              for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+                this.dispatch(item);
+              }
+            }
+          }
+
+          if (shouldStop()) {
+            return lastEventId;
+          }
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+
+    return lastEventId;
+  }
+
+  private dispatch(message: JSONRPCMessage): void {
+    if ('id' in message && !('method' in message)) {
+      const pending = this.pending.get(message.id);
+      if (pending) {
+        this.pending.delete(message.id);
+        pending.resolve(message);
+      } else if (this.options.debug) {
+        console.log('[StreamableHTTPTransport] Response for unknown id:', JSON.stringify(message));
+      }
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      handler(message);
+    }
+  }
+
+  private buildHeaders(base: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...this.options.headers, ...base };
+    if (this.sessionId) {
+      headers[SESSION_HEADER] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers[PROTOCOL_VERSION_HEADER] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  private track(controller: AbortController): AbortController {
+    this.controllers.add(controller);
+    return controller;
+  }
+}
+
+/**
+ * Parse one SSE event block. Returns null for comment-only or empty blocks.
+ */
+function parseSSEEvent(block: string): SSEEvent | null {
+  const event: SSEEvent = { event: 'message', data: '' };
+  const data: string[] = [];
+  let hasField = false;
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    hasField = true;
+
+    switch (field) {
+      case 'id':
+        event.id = value;
+        break;
+      case 'event':
+        event.event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+    }
+  }
+
+  if (!hasField) return null;
+  event.data = data.join('\n');
+  return event;
+}
@@ -2,10 +2,35 @@ import {
   JSONRPCRequest,
   JSONRPCResponse,
   JSONRPCNotification,
+  JSONRPCMessage,
   MessageHandler,
   RequestInterceptor,
   ResponseInterceptor,
+  NotificationInterceptor,
+  MessageDirection,
+  RecordedMessage,
+  RecordedBatch,
+  MockContext,
+  MockHandler,
+  MockOptions,
+  MockVerification,
+  Cassette,
+  CassetteOptions,
+  ProgressParams,
+  ProtocolViolation,
+  FaultRule,
+  FaultEvent,
+  LoggingLevel,
+  LogMessage,
 } from '../types';
+import { MessageValidator } from './MessageValidator';
+import { SeededRandom } from './SeededRandom';
+import { MockRegistration } from './MockRegistration';
+import { CassettePlayer, buildCassette, readCassette, writeCassette } from './Cassette';
+import { isAtLeast, isLoggingLevel } from './Logging';
+
+/** Seed used for fault injection until setFaultSeed() is called */
+const DEFAULT_FAULT_SEED = 0x5eed;
 
 /**
  * TransportInterceptor - Intercepts and mocks JSON-RPC messages
@@ -13,15 +38,34 @@ import {
  * This class allows you to:
  * - Intercept outgoing requests and modify them
  * - Intercept incoming responses and modify them
+ * - Intercept notifications in either direction
  * - Mock responses to specific requests
- * - Record all messages for testing assertions
+ * - Record all messages, with their direction, for testing assertions
+ * - Group the messages of JSON-RPC batches
+ * - Record protocol violations detected by the host
+ * - Record traffic to a cassette file and replay it offline
+ * - Inject faults (latency, drops, errors, corruption, duplicates) into responses, reproducibly
+ * - Optionally validate every message against the JSON-RPC 2.0 and MCP envelope rules
  */
 export class TransportInterceptor {
   private requestInterceptors: RequestInterceptor[] = [];
   private responseInterceptors: ResponseInterceptor[] = [];
+  private notificationInterceptors: NotificationInterceptor[] = [];
   private messageHandlers: MessageHandler[] = [];
-  private requestMocks: Map<string, (request: JSONRPCRequest) => JSONRPCResponse | Promise<JSONRPCResponse>> = new Map();
-  private recordedMessages: Array<JSONRPCRequest | JSONRPCResponse | JSONRPCNotification> = [];
+  private requestMocks: MockRegistration[] = [];
+  private mockSequence = 0;
+  private unmatchedRequests: JSONRPCRequest[] = [];
+  private cassette:
+    | { file: string; mode: 'record'; start: number }
+    | { file: string; mode: 'replay'; player: CassettePlayer; mock: MockRegistration }
+    | null = null;
+  private recordedMessages: RecordedMessage[] = [];
+  private violations: ProtocolViolation[] = [];
+  private batchCounter = 0;
+  private validator: MessageValidator | null = null;
+  private faultRules: FaultRule[] = [];
+  private faultLog: FaultEvent[] = [];
+  private random = new SeededRandom(DEFAULT_FAULT_SEED);
   private debug: boolean;
 
   constructor(debug = false) {
@@ -42,6 +86,13 @@ export class TransportInterceptor {
     this.responseInterceptors.push(interceptor);
   }
 
+  /**
+   * Add a notification interceptor. It sees notifications in both directions.
+   */
+  onNotification(interceptor: NotificationInterceptor): void {
+    this.notificationInterceptors.push(interceptor);
+  }
+
   /**
    * Add a message handler (for all messages)
    */
@@ -50,21 +101,247 @@ export class TransportInterceptor {
   }
 
   /**
-   * Mock a response for a specific method
+   * Mock responses for a method, or for every method with '*'. Several
+   * mocks can share a method: the highest priority is tried first, then the
+   * newest. A mock whose params matcher rejects the request, whose call
+   * limit is used up, or whose handler returns undefined passes the request
+   * on to the next mock and finally to the real server.
+   *
+   * @example
+   * interceptor.mockResponse('tools/call', (req) => ({ jsonrpc: '2.0', id: req.id, result: ... }))
+   *   .withParams({ name: 'search' })
+   *   .once();
+   */
+  mockResponse(method: string, handler: MockHandler, options: MockOptions = {}): MockRegistration {
+    const mock = new MockRegistration(method, handler, options, this.mockSequence++, (removed) => {
+      this.requestMocks = this.requestMocks.filter(m => m !== removed);
+    });
+    this.requestMocks.push(mock);
+    return mock;
+  }
+
+  /**
+   * Registered mocks, optionally only those that apply to one method
+   * (including '*' mocks), in the order they are tried
+   */
+  getMocks(method?: string): MockRegistration[] {
+    return this.requestMocks
+      .filter(mock => method === undefined || mock.method === method || mock.method === '*')
+      .sort((a, b) => b.priority - a.priority || b.sequence - a.sequence);
+  }
+
+  /**
+   * Insert a cassette. In 'record' mode, traffic from now on is saved to
+   * `file` when the cassette is ejected. In 'replay' mode, requests are
+   * answered from `file` by method and params; unrecorded requests pass
+   * through to other mocks and the server, or reject when `strict` is set.
+   * Mocks added after the cassette take precedence over it.
+   *
+   * @example
+   * await interceptor.insertCassette('cassettes/weather.json', {
+   *   mode: process.env.RECORD ? 'record' : 'replay',
+   *   strict: true,
+   * });
+   */
+  async insertCassette(file: string, options: CassetteOptions): Promise<void> {
+    if (this.cassette) {
+      throw new Error(`Cassette ${this.cassette.file} is already inserted`);
+    }
+
+    if (options.mode === 'record') {
+      this.cassette = { file, mode: 'record', start: this.recordedMessages.length };
+      return;
+    }
+
+    const player = new CassettePlayer(await readCassette(file), options.strict);
+    const mock = this.mockResponse('*', (request) => player.answer(request), { optional: true });
+    this.cassette = { file, mode: 'replay', player, mock };
+  }
+
+  /**
+   * Eject the cassette. In 'record' mode the traffic since insertion is
+   * written to the cassette file.
+   * @returns The cassette, or null if none was inserted
+   */
+  async ejectCassette(): Promise<Cassette | null> {
+    const cassette = this.cassette;
+    this.cassette = null;
+    if (!cassette) {
+      return null;
+    }
+
+    if (cassette.mode === 'replay') {
+      cassette.mock.remove();
+      return cassette.player.cassette;
+    }
+
+    const recorded = buildCassette(this.recordedMessages.slice(cassette.start));
+    await writeCassette(cassette.file, recorded);
+    return recorded;
+  }
+
+  /**
+   * Record a request that no mock answered and no server handled. The host
+   * calls this before answering with "Method not found".
+   */
+  recordUnmatched(request: JSONRPCRequest): void {
+    this.unmatchedRequests.push(request);
+  }
+
+  /**
+   * Report mocks that were never used, mocks limited with times(n) that
+   * answered fewer requests, and requests nothing answered. Mocks marked
+   * optional (like the host's built-in responders) are left out of `unused`.
+   */
+  verifyMocks(): MockVerification {
+    const mocks = this.getMocks().reverse();
+    return {
+      unused: mocks.filter(mock => mock.required && mock.callCount === 0).map(mock => mock.summary()),
+      underused: mocks
+        .filter(mock => mock.maxCalls !== undefined && mock.callCount > 0 && mock.callCount < mock.maxCalls)
+        .map(mock => mock.summary()),
+      unmatched: [...this.unmatchedRequests],
+    };
+  }
+
+  /**
+   * Add a fault rule. Rules apply to responses on their way to the client,
+   * whether they come from a mock or a real server, alone or in a batch.
+   *
+   * @example
+   * interceptor.injectFault({ method: 'tools/call', tool: 'search', latency: { min: 50, max: 500 } });
+   * interceptor.injectFault({ method: 'tools/call', drop: true, probability: 0.2 });
+   */
+  injectFault(rule: FaultRule): void {
+    this.faultRules.push(rule);
+  }
+
+  /**
+   * Reseed the random number generator behind probabilities, jitter and
+   * corruption. Runs with the same seed and traffic inject the same faults.
+   */
+  setFaultSeed(seed: number): void {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * Remove all fault rules
+   */
+  clearFaults(): void {
+    this.faultRules = [];
+  }
+
+  /**
+   * Faults applied so far, in order
+   */
+  getFaultLog(): FaultEvent[] {
+    return [...this.faultLog];
+  }
+
+  /**
+   * Run a response through the fault rules. Resolves with the response to
+   * deliver, or null if it is dropped, and whether it is delivered twice.
+   * A truncated response rejects as a parse failure.
+   */
+  async applyFaults(
+    request: JSONRPCRequest,
+    response: JSONRPCResponse
+  ): Promise<{ response: JSONRPCResponse | null; duplicate: boolean }> {
+    let current = response;
+    let duplicate = false;
+
+    for (const rule of this.faultRules) {
+      if (!faultMatches(rule, request) || !this.random.chance(rule.probability ?? 1)) {
+        continue;
+      }
+
+      const log = (fault: FaultEvent['fault'], detail?: number | string) => {
+        const event: FaultEvent = { method: request.method, requestId: request.id, fault };
+        if (detail !== undefined) event.detail = detail;
+        this.faultLog.push(event);
+        if (this.debug) {
+          console.log(`[TransportInterceptor] Injecting ${fault} fault into ${request.method}`, detail ?? '');
+        }
+      };
+
+      if (rule.latency !== undefined) {
+        const ms = typeof rule.latency === 'number'
+          ? rule.latency
+          : this.random.int(rule.latency.min, rule.latency.max);
+        log('latency', ms);
+        await new Promise(resolve => setTimeout(resolve, ms));
+      }
+
+      if (rule.error) {
+        log('error', rule.error.code);
+        current = { jsonrpc: '2.0', id: request.id, error: rule.error };
+      }
+
+      if (rule.corrupt === 'garble') {
+        log('corrupt', 'garble');
+        current = garble(current, this.random);
+      } else if (rule.corrupt === 'truncate') {
+        log('corrupt', 'truncate');
+        const text = JSON.stringify(current);
+        const truncated = text.slice(0, this.random.int(1, text.length - 1));
+        try {
+          current = JSON.parse(truncated);
+        } catch (error) {
+          throw new Error(`Malformed response to ${request.method}: ${(error as Error).message}`);
+        }
+      }
+
+      if (rule.drop) {
+        log('drop');
+        return { response: null, duplicate: false };
+      }
+
+      if (rule.duplicate) {
+        log('duplicate');
+        duplicate = true;
+      }
+    }
+
+    return { response: current, duplicate };
+  }
+
+  /**
+   * Validate every intercepted message from now on. Malformed messages are
+   * still passed through, but each problem is recorded as a protocol violation
+   * with a `jsonrpc.*` or `mcp.*` rule.
+   */
+  enableValidation(): void {
+    this.validator ??= new MessageValidator();
+  }
+
+  /**
+   * Whether message validation is enabled
+   */
+  isValidationEnabled(): boolean {
+    return this.validator !== null;
+  }
+
+  /**
+   * Allocate an id that groups the messages of one JSON-RPC batch. Pass it to
+   * the intercept methods for every message sent or received as part of the batch.
    */
-  mockResponse(method: string, handler: (request: JSONRPCRequest) => JSONRPCResponse | Promise<JSONRPCResponse>): void {
-    this.requestMocks.set(method, handler);
+  beginBatch(): number {
+    return ++this.batchCounter;
   }
 
   /**
    * Process an outgoing request
    */
-  async interceptRequest(request: JSONRPCRequest): Promise<JSONRPCRequest> {
+  async interceptRequest(
+    request: JSONRPCRequest,
+    direction: MessageDirection = 'outgoing',
+    batchId?: number
+  ): Promise<JSONRPCRequest> {
     if (this.debug) {
-      console.log('[TransportInterceptor] Outgoing request:', JSON.stringify(request, null, 2));
+      console.log(`[TransportInterceptor] ${label(direction)} request:`, JSON.stringify(request, null, 2));
     }
 
-    this.recordedMessages.push(request);
+    this.record(request, direction, batchId);
 
     let modifiedRequest = request;
     for (const interceptor of this.requestInterceptors) {
@@ -81,12 +358,16 @@ export class TransportInterceptor {
   /**
    * Process an incoming response
    */
-  async interceptResponse(response: JSONRPCResponse): Promise<JSONRPCResponse> {
+  async interceptResponse(
+    response: JSONRPCResponse,
+    direction: MessageDirection = 'incoming',
+    batchId?: number
+  ): Promise<JSONRPCResponse> {
     if (this.debug) {
-      console.log('[TransportInterceptor] Incoming response:', JSON.stringify(response, null, 2));
+      console.log(`[TransportInterceptor] ${label(direction)} response:`, JSON.stringify(response, null, 2));
     }
 
-    this.recordedMessages.push(response);
+    this.record(response, direction, batchId);
 
     let modifiedResponse = response;
     for (const interceptor of this.responseInterceptors) {
@@ -101,15 +382,57 @@ export class TransportInterceptor {
   }
 
   /**
-   * Check if a request should be mocked
+   * Process a notification travelling in either direction
+   */
+  async interceptNotification(
+    notification: JSONRPCNotification,
+    direction: MessageDirection = 'outgoing',
+    batchId?: number
+  ): Promise<JSONRPCNotification> {
+    if (this.debug) {
+      console.log(`[TransportInterceptor] ${label(direction)} notification:`, JSON.stringify(notification, null, 2));
+    }
+
+    this.record(notification, direction, batchId);
+
+    let modifiedNotification = notification;
+    for (const interceptor of this.notificationInterceptors) {
+      modifiedNotification = await interceptor(modifiedNotification, direction);
+    }
+
+    for (const handler of this.messageHandlers) {
+      await handler(modifiedNotification);
+    }
+
+    return modifiedNotification;
+  }
+
+  /**
+   * Check if a request should be mocked. The context lets the mock act as a
+   * server towards the client; without one, emitted notifications are only recorded.
    */
-  async shouldMock(request: JSONRPCRequest): Promise<JSONRPCResponse | null> {
-    const mockHandler = this.requestMocks.get(request.method);
-    if (mockHandler) {
-      if (this.debug) {
-        console.log(`[TransportInterceptor] Mocking response for method: ${request.method}`);
+  async shouldMock(request: JSONRPCRequest, context?: MockContext): Promise<JSONRPCResponse | null> {
+    for (const mock of this.getMocks(request.method)) {
+      if (!mock.accepts(request)) {
+        continue;
       }
-      return await mockHandler(request);
+
+      mock.claim();
+      let response: JSONRPCResponse | null | undefined;
+      try {
+        response = await mock.handler(request, context ?? this.createRecordingContext(request));
+      } catch (error) {
+        mock.release();
+        throw error;
+      }
+
+      if (response) {
+        if (this.debug) {
+          console.log(`[TransportInterceptor] Mocking response for method: ${request.method}`);
+        }
+        return response;
+      }
+      mock.release();
     }
     return null;
   }
@@ -117,22 +440,56 @@ export class TransportInterceptor {
   /**
    * Get all recorded messages
    */
-  getRecordedMessages(): Array<JSONRPCRequest | JSONRPCResponse | JSONRPCNotification> {
-    return [...this.recordedMessages];
+  getRecordedMessages(): JSONRPCMessage[] {
+    return this.recordedMessages.map(entry => entry.message);
   }
 
   /**
-   * Get recorded requests only
+   * Get all recorded messages with their direction and timestamp
    */
-  getRecordedRequests(): JSONRPCRequest[] {
-    return this.recordedMessages.filter(msg => 'method' in msg && 'id' in msg) as JSONRPCRequest[];
+  getRecordedTraffic(): RecordedMessage[] {
+    return this.recordedMessages.map(entry => ({ ...entry }));
   }
 
   /**
-   * Get recorded responses only
+   * Get recorded requests only, optionally restricted to one direction
    */
-  getRecordedResponses(): JSONRPCResponse[] {
-    return this.recordedMessages.filter(msg => 'id' in msg && !('method' in msg)) as JSONRPCResponse[];
+  getRecordedRequests(direction?: MessageDirection): JSONRPCRequest[] {
+    return this.filterRecorded(msg => 'method' in msg && 'id' in msg, direction) as JSONRPCRequest[];
+  }
+
+  /**
+   * Get recorded responses only, optionally restricted to one direction
+   */
+  getRecordedResponses(direction?: MessageDirection): JSONRPCResponse[] {
+    return this.filterRecorded(msg => 'id' in msg && !('method' in msg), direction) as JSONRPCResponse[];
+  }
+
+  /**
+   * Get recorded notifications only, optionally restricted to one direction
+   */
+  getRecordedNotifications(direction?: MessageDirection): JSONRPCNotification[] {
+    return this.filterRecorded(msg => 'method' in msg && !('id' in msg), direction) as JSONRPCNotification[];
+  }
+
+  /**
+   * Find notifications by method name
+   */
+  findNotificationsByMethod(method: string, direction?: MessageDirection): JSONRPCNotification[] {
+    return this.getRecordedNotifications(direction).filter(n => n.method === method);
+  }
+
+  /**
+   * Log entries received from the server (notifications/message), in order.
+   * `level` keeps only entries at least that severe; `logger` only those
+   * from that logger.
+   */
+  getLogMessages(filter: { level?: LoggingLevel; logger?: string } = {}): LogMessage[] {
+    return this.findNotificationsByMethod('notifications/message', 'incoming')
+      .map(notification => notification.params as LogMessage)
+      .filter(entry => isLoggingLevel(entry?.level))
+      .filter(entry => filter.level === undefined || isAtLeast(entry.level, filter.level))
+      .filter(entry => filter.logger === undefined || entry.logger === filter.logger);
   }
 
   /**
@@ -143,20 +500,159 @@ export class TransportInterceptor {
   }
 
   /**
-   * Clear all recorded messages
+   * Get recorded JSON-RPC batches. Their messages also appear individually
+   * in the other recorded-message getters.
+   */
+  getRecordedBatches(): RecordedBatch[] {
+    const batches = new Map<number, RecordedBatch>();
+    for (const { message, batchId } of this.recordedMessages) {
+      if (batchId === undefined) continue;
+
+      let batch = batches.get(batchId);
+      if (!batch) {
+        batch = { id: batchId, messages: [], responses: [] };
+        batches.set(batchId, batch);
+      }
+      if ('method' in message) {
+        batch.messages.push(message);
+      } else {
+        batch.responses.push(message);
+      }
+    }
+    return Array.from(batches.values());
+  }
+
+  /**
+   * Record a protocol violation
+   */
+  recordViolation(rule: string, reason: string, message?: JSONRPCMessage): void {
+    if (this.debug) {
+      console.log(`[TransportInterceptor] Protocol violation (${rule}): ${reason}`);
+    }
+    this.violations.push({ rule, reason, message, timestamp: Date.now() });
+  }
+
+  /**
+   * Get recorded protocol violations, optionally only those whose rule starts with a prefix
+   */
+  getProtocolViolations(rulePrefix?: string): ProtocolViolation[] {
+    return this.violations.filter(v => rulePrefix === undefined || v.rule.startsWith(rulePrefix));
+  }
+
+  /**
+   * Clear all recorded messages and protocol violations
    */
   clearRecordedMessages(): void {
     this.recordedMessages = [];
+    this.violations = [];
+    this.faultLog = [];
+    this.unmatchedRequests = [];
+    if (this.cassette?.mode === 'record') {
+      this.cassette.start = 0;
+    }
   }
 
   /**
-   * Clear all interceptors and mocks
+   * Clear all interceptors and mocks. Message validation stays enabled.
    */
   reset(): void {
     this.requestInterceptors = [];
     this.responseInterceptors = [];
+    this.notificationInterceptors = [];
     this.messageHandlers = [];
-    this.requestMocks.clear();
+    this.requestMocks = [];
+    this.unmatchedRequests = [];
+    this.cassette = null;
     this.recordedMessages = [];
+    this.violations = [];
+    this.validator?.reset();
+    this.faultRules = [];
+    this.faultLog = [];
+    this.random = new SeededRandom(DEFAULT_FAULT_SEED);
+  }
+
+  private record(message: JSONRPCMessage, direction: MessageDirection, batchId?: number): void {
+    const entry: RecordedMessage = { message, direction, timestamp: Date.now() };
+    if (batchId !== undefined) {
+      entry.batchId = batchId;
+    }
+    this.recordedMessages.push(entry);
+
+    for (const { rule, reason } of this.validator?.validate(message, direction) ?? []) {
+      this.recordViolation(rule, reason, message);
+    }
   }
+
+  private filterRecorded(predicate: (msg: JSONRPCMessage) => boolean, direction?: MessageDirection): JSONRPCMessage[] {
+    return this.recordedMessages
+      .filter(entry => (direction === undefined || entry.direction === direction) && predicate(entry.message))
+      .map(entry => entry.message);
+  }
+
+  private createRecordingContext(request: JSONRPCRequest): MockContext {
+    const notify = async (method: string, params?: unknown) => {
+      await this.interceptNotification({ jsonrpc: '2.0', method, params }, 'incoming');
+    };
+    const progressToken = (request.params as { _meta?: { progressToken?: string | number } } | undefined)
+      ?._meta?.progressToken;
+
+    return {
+      notify,
+      sendRequest: async () => {
+        throw new Error('Server-initiated requests need a client; run the mock through MockMCPHost');
+      },
+      progress: async (progress, total, message) => {
+        if (progressToken === undefined) return;
+        const params: ProgressParams = { progressToken, progress };
+        if (total !== undefined) params.total = total;
+        if (message !== undefined) params.message = message;
+        await notify('notifications/progress', params);
+      },
+      log: async (level, data, logger) => {
+        await notify('notifications/message', logger === undefined ? { level, data } : { level, logger, data });
+      },
+      signal: new AbortController().signal,
+    };
+  }
+}
+
+function faultMatches(rule: FaultRule, request: JSONRPCRequest): boolean {
+  if (rule.method !== undefined && rule.method !== request.method) {
+    return false;
+  }
+  if (rule.tool !== undefined) {
+    const name = (request.params as { name?: unknown } | undefined)?.name;
+    return request.method === 'tools/call' && name === rule.tool;
+  }
+  return true;
+}
+
+/**
+ * Copy of a response with one randomly chosen value in its result (or
+ * error) replaced by a value of the wrong type
+ */
+function garble(response: JSONRPCResponse, random: SeededRandom): JSONRPCResponse {
+  const copy = JSON.parse(JSON.stringify(response)) as Record<string, unknown>;
+  const leaves: Array<[Record<string, unknown>, string]> = [];
+
+  const walk = (parent: Record<string, unknown>, key: string) => {
+    const value = parent[key];
+    const children = typeof value === 'object' && value !== null ? Object.keys(value) : [];
+    if (children.length === 0) {
+      leaves.push([parent, key]);
+      return;
+    }
+    for (const child of children) {
+      walk(value as Record<string, unknown>, child);
+    }
+  };
+  walk(copy, 'result' in copy ? 'result' : 'error');
+
+  const [parent, key] = random.pick(leaves);
+  parent[key] = typeof parent[key] === 'string' ? 0 : 'garbled';
+  return copy as unknown as JSONRPCResponse;
+}
+
+function label(direction: MessageDirection): string {
+  return direction === 'outgoing' ? 'Outgoing' : 'Incoming';
 }
@@ -0,0 +1,204 @@
+/**
+ * UriTemplate — RFC 6570 URI template matching
+ *
+ * Matches concrete URIs against templates such as `file:///{path}` or
+ * `db://{table}/rows{?limit,offset}` and extracts the variable values.
+ * All operators are recognized: simple, reserved (+), fragment (#),
+ * label (.), path segment (/), path parameter (;), query (?) and
+ * query continuation (&), including the explode (*) and prefix (:n) modifiers.
+ *
+ * Matching is the inverse of expansion, so it is necessarily lenient where
+ * expansion is lossy: prefix modifiers are ignored and exploded values are
+ * returned as arrays.
+ */
+
+export type UriTemplateVariables = Record<string, string | string[]>;
+
+interface VariableSpec {
+  name: string;
+  explode: boolean;
+}
+
+interface Expression {
+  operator: string;
+  variables: VariableSpec[];
+}
+
+const OPERATORS = '+#./;?&';
+
+export class UriTemplate {
+  readonly template: string;
+  private parts: Array<string | Expression> = [];
+  private pattern: RegExp;
+  /** Regex capture group index → expression that produced it */
+  private groups: Expression[] = [];
+
+  constructor(template: string) {
+    this.template = template;
+    this.parse();
+    this.pattern = this.compile();
+  }
+
+  /**
+   * Names of all variables in the template, in order of appearance
+   */
+  get variableNames(): string[] {
+    return this.parts.flatMap(part => (typeof part === 'string' ? [] : part.variables.map(v => v.name)));
+  }
+
+  /**
+   * Match a URI against the template.
+   * @returns The variable values, or null if the URI does not match
+   */
+  match(uri: string): UriTemplateVariables | null {
+    const result = this.pattern.exec(uri);
+    if (!result) {
+      return null;
+    }
+
+    const variables: UriTemplateVariables = {};
+    for (let i = 0; i < this.groups.length; i++) {
+      const raw = result[i + 1];
+      if (raw === undefined || raw === '') continue;
+      Object.assign(variables, extract(this.groups[i], raw));
+    }
+    return variables;
+  }
+
+  // ── Private ──────────────────────────────────────────────────
+
+  private parse(): void {
+    const re = /\{([^}]*)\}/g;
+    let last = 0;
+    let m: RegExpExecArray | null;
+
+    while ((m = re.exec(this.template)) !== null) {
+      if (m.index > last) {
+        this.parts.push(this.template.slice(last, m.index));
+      }
+
+      let body = m[1];
+      let operator = '';
+      if (body && OPERATORS.includes(body[0])) {
+        operator = body[0];
+        body = body.slice(1);
+      }
+
+      const variables = body.split(',').map((spec): VariableSpec => {
+        const explode = spec.endsWith('*');
+        const name = (explode ? spec.slice(0, -1) : spec).replace(/:\d+$/, '');
+        if (!/^[A-Za-z0-9_.%]+$/.test(name)) {
+          throw new Error(`Invalid variable "${spec}" in URI template "${this.template}"`);
+        }
+        return { name, explode };
+      });
+
+      this.parts.push({ operator, variables });
+      last = re.lastIndex;
+    }
+
+    if (last < this.template.length) {
+      this.parts.push(this.template.slice(last));
+    }
+  }
+
+  private compile(): RegExp {
+    let source = '^';
+    for (const part of this.parts) {
+      if (typeof part === 'string') {
+        source += escapeRegExp(part);
+        continue;
+      }
+      this.groups.push(part);
+      source += expressionPattern(part);
+    }
+    return new RegExp(source + '$');
+  }
+}
+
+/**
+ * Regex for one expression with a single capture group around the expanded text.
+ * Every expression may expand to nothing when its variables are undefined.
+ */
+function expressionPattern(expression: Expression): string {
+  switch (expression.operator) {
+    case '+':
+      return '(.*)';
+    case '#':
+      return '(?:#(.*))?';
+    case '.':
+      return '((?:\\.[^/?#.]*)*)';
+    case '/':
+      return '((?:/[^/?#]*)*)';
+    case ';':
+      return '((?:;[^/?#;]*)*)';
+    case '?':
+      return '(?:\\?([^#]*))?';
+    case '&':
+      return '((?:&[^#&]*)*)';
+    default:
+      return '([^/?#&]*)';
+  }
+}
+
+/**
+ * Split the captured text of an expression back into its variables.
+ */
+function extract(expression: Expression, raw: string): UriTemplateVariables {
+  const { operator, variables } = expression;
+  const values: UriTemplateVariables = {};
+
+  // Named operators carry name=value pairs
+  if (operator === ';' || operator === '?' || operator === '&') {
+    const separator = operator === ';' ? ';' : '&';
+    const pairs = raw.replace(/^[;&]/, '').split(separator);
+    for (const pair of pairs) {
+      const eq = pair.indexOf('=');
+      const name = decode(eq === -1 ? pair : pair.slice(0, eq));
+      const value = eq === -1 ? '' : decode(pair.slice(eq + 1));
+      const spec = variables.find(v => v.name === name);
+      if (!spec) continue;
+      if (spec.explode) {
+        const existing = values[name];
+        values[name] = existing === undefined ? [value] : ([] as string[]).concat(existing, value);
+      } else {
+        values[name] = value.includes(',') ? value.split(',') : value;
+      }
+    }
+    return values;
+  }
+
+  const prefix = operator === '.' || operator === '/' ? operator : '';
+  const body = prefix ? raw.slice(1) : raw;
+  const items = body.split(prefix || ',');
+
+  if (variables.length === 1) {
+    const [spec] = variables;
+    if (spec.explode || items.length > 1) {
+      // A single variable owning every item is a list value (or, for +/#, text containing commas)
+      values[spec.name] = operator === '+' || operator === '#' ? decode(body) : items.map(decode);
+    } else {
+      values[spec.name] = decode(body);
+    }
+    return values;
+  }
+
+  variables.forEach((spec, i) => {
+    if (items[i] !== undefined) {
+      values[spec.name] = decode(items[i]);
+    }
+  });
+  return values;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
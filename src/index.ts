@@ -7,6 +7,19 @@
 
 export { MockMCPHost } from './core/MockMCPHost';
 export { TransportInterceptor } from './core/TransportInterceptor';
+export { MockRegistration, matchesPartial } from './core/MockRegistration';
+export { buildCassette, CassettePlayer } from './core/Cassette';
+export { readManifest, parseManifest, synthesizeToolResult, synthesizeResource, synthesizePrompt } from './core/Manifest';
+export { formatTranscript, protocolMatchers, VOLATILE_FIELDS } from './core/ProtocolSnapshot';
+export type { ProtocolSnapshotOptions } from './core/ProtocolSnapshot';
+export { runConformanceSuite, formatConformanceReport, CONFORMANCE_CHECKS } from './core/ConformanceSuite';
+export type {
+  ConformanceCheck,
+  ConformanceContext,
+  ConformanceOptions,
+  ConformanceReport,
+  ConformanceResult,
+} from './core/ConformanceSuite';
 export { HostProfiles, ClaudeProfile, VSCodeProfile, GenericProfile, applyTheme } from './core/HostProfiles';
 export type { HostProfile } from './core/HostProfiles';
 export {
@@ -17,7 +30,35 @@ export {
   expectMessageSequence,
   expectCapability,
   expectNoCapability,
+  expectNoProtocolViolations,
+  expectProtocolViolation,
+  expectWellFormedTraffic,
+  expectNoSchemaViolations,
+  expectAllMocksUsed,
+  expectLog,
 } from './core/AssertionHelpers';
+export { LOGGING_LEVELS } from './core/Logging';
+export {
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LATEST_PROTOCOL_VERSION,
+  supportsFeature,
+  negotiateProtocolVersion,
+} from './core/ProtocolVersion';
+export type { ProtocolFeature } from './core/ProtocolVersion';
+export { UriTemplate } from './core/UriTemplate';
+export type { UriTemplateVariables } from './core/UriTemplate';
+export { MessageValidator, validateTraffic } from './core/MessageValidator';
+export type { MessageIssue } from './core/MessageValidator';
+export { validateSchema } from './core/SchemaValidator';
+export type { SchemaError } from './core/SchemaValidator';
+export { SeededRandom } from './core/SeededRandom';
+export { generateValue, generateBoundaryValue, generateInvalidValue } from './core/SchemaGenerator';
+export { fuzzTool } from './core/Fuzzer';
+export type { FuzzOptions, FuzzFailure, FuzzFailureKind, FuzzReport } from './core/Fuzzer';
+export { StdioTransport } from './core/StdioTransport';
+export type { StdioTransportOptions } from './core/StdioTransport';
+export { StreamableHTTPTransport } from './core/StreamableHTTPTransport';
+export type { StreamableHTTPTransportOptions } from './core/StreamableHTTPTransport';
 export { ReferenceHost } from './core/ReferenceHost';
 export type { ReferenceHostOptions } from './core/ReferenceHost';
 export { VSCodeHost, ChatHandle } from './core/VSCodeHost';
@@ -28,13 +69,71 @@ export type {
   JSONRPCResponse,
   JSONRPCNotification,
   JSONRPCError,
+  JSONRPCMessage,
   MessageHandler,
   RequestInterceptor,
   ResponseInterceptor,
+  NotificationInterceptor,
+  MessageDirection,
+  RecordedMessage,
+  RecordedBatch,
+  BatchEntry,
+  MockContext,
+  MockHandler,
+  MockResult,
+  MockOptions,
+  ParamsMatcher,
+  MockSummary,
+  MockVerification,
+  Cassette,
+  CassetteInteraction,
+  CassetteOptions,
+  ProgressParams,
+  LoggingLevel,
+  LogMessage,
+  RequestOptions,
+  ProtocolViolation,
+  FaultRule,
+  FaultEvent,
+  LifecycleState,
   MockMCPHostConfig,
   MCPCapabilities,
   MCPTestContext,
   MCPTransport,
+  JSONSchema,
+  MCPTool,
+  MCPToolAnnotations,
+  TextContent,
+  ImageContent,
+  AudioContent,
+  EmbeddedResource,
+  ResourceLink,
+  ContentBlock,
+  CallToolResult,
+  ToolContext,
+  ToolHandler,
+  MCPResource,
+  MCPResourceTemplate,
+  ResourceBody,
+  ResourceDefinition,
+  ResourceContents,
+  ResourceTemplateReader,
+  MCPPromptArgument,
+  MCPPrompt,
+  PromptMessage,
+  GetPromptResult,
+  PromptRenderer,
+  MCPManifest,
+  ManifestOptions,
+  MCPClientCapabilities,
+  Root,
+  SamplingMessage,
+  CreateMessageParams,
+  CreateMessageResult,
+  ElicitParams,
+  ElicitResult,
+  SamplingHandler,
+  ElicitationHandler,
 } from './types';
 
 import type { MockMCPHostConfig, MCPTestContext } from './types';
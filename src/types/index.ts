@@ -31,6 +31,8 @@ export interface JSONRPCError {
   data?: unknown;
 }
 
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCResponse | JSONRPCNotification;
+
 /**
  * Transport interceptor handler types
  */
@@ -40,6 +42,249 @@ export type RequestInterceptor = (request: JSONRPCRequest) => JSONRPCRequest | P
 
 export type ResponseInterceptor = (response: JSONRPCResponse) => JSONRPCResponse | Promise<JSONRPCResponse>;
 
+export type NotificationInterceptor = (
+  notification: JSONRPCNotification,
+  direction: MessageDirection
+) => JSONRPCNotification | Promise<JSONRPCNotification>;
+
+/**
+ * Direction of a message relative to the host: 'outgoing' is client → server,
+ * 'incoming' is server → client.
+ */
+export type MessageDirection = 'outgoing' | 'incoming';
+
+/**
+ * A message as recorded by the TransportInterceptor
+ */
+export interface RecordedMessage {
+  message: JSONRPCMessage;
+  direction: MessageDirection;
+  /** Milliseconds since the epoch when the message was recorded */
+  timestamp: number;
+  /** Set when the message was part of a JSON-RPC batch */
+  batchId?: number;
+}
+
+/**
+ * A JSON-RPC batch as recorded by the TransportInterceptor
+ */
+export interface RecordedBatch {
+  id: number;
+  /** Requests and notifications in the batch, in the order they were sent */
+  messages: Array<JSONRPCRequest | JSONRPCNotification>;
+  /** Responses to the batch, in the order they arrived */
+  responses: JSONRPCResponse[];
+}
+
+/**
+ * One element of a batch sent with MockMCPHost.sendBatch. Elements with
+ * `notification: true` are sent as notifications and get no response.
+ */
+export interface BatchEntry {
+  method: string;
+  params?: unknown;
+  notification?: boolean;
+}
+
+/**
+ * Fault applied to responses by TransportInterceptor.injectFault. Every
+ * effect set on a rule is applied together; several rules can match one
+ * response and are applied in the order they were added.
+ */
+export interface FaultRule {
+  /** Only responses to this method. Default: every method */
+  method?: string;
+  /** Only tools/call requests for this tool */
+  tool?: string;
+  /** Chance that the rule fires for a matching response, from the seeded RNG. Default: 1 */
+  probability?: number;
+  /** Delay the response by a fixed number of milliseconds, or a random delay in a range */
+  latency?: number | { min: number; max: number };
+  /** Never deliver the response, so the request times out */
+  drop?: boolean;
+  /** Replace the response with this JSON-RPC error */
+  error?: JSONRPCError;
+  /**
+   * Damage the payload: 'truncate' cuts the serialized response short so it
+   * no longer parses; 'garble' replaces one value in the result with a value
+   * of the wrong type
+   */
+  corrupt?: 'truncate' | 'garble';
+  /** Deliver the response twice */
+  duplicate?: boolean;
+}
+
+/**
+ * A fault that was applied to a response
+ */
+export interface FaultEvent {
+  method: string;
+  requestId: string | number;
+  fault: 'latency' | 'drop' | 'error' | 'corrupt' | 'duplicate';
+  /** Delay in milliseconds, corruption mode, or error code */
+  detail?: number | string;
+}
+
+/**
+ * A breach of the JSON-RPC or MCP rules observed in recorded traffic
+ */
+export interface ProtocolViolation {
+  /** Stable identifier of the rule, e.g. 'lifecycle.not-initialized' */
+  rule: string;
+  /** Human-readable explanation */
+  reason: string;
+  /** The offending message, if there is one */
+  message?: JSONRPCMessage;
+  /** Milliseconds since the epoch when the violation was recorded */
+  timestamp: number;
+}
+
+/**
+ * Phases of the MCP connection lifecycle as seen by the client:
+ * - 'uninitialized': nothing sent yet
+ * - 'initializing': initialize request in flight
+ * - 'initialized': initialize succeeded, notifications/initialized not yet sent
+ * - 'ready': handshake complete, normal operation
+ */
+export type LifecycleState = 'uninitialized' | 'initializing' | 'initialized' | 'ready';
+
+/**
+ * Context passed to mock handlers, letting a mocked server act on the client
+ */
+export interface MockContext {
+  /** Emit a server → client notification */
+  notify: (method: string, params?: unknown) => Promise<void>;
+  /**
+   * Issue a server → client request (e.g. sampling/createMessage, elicitation/create,
+   * roots/list) and wait for the client's response
+   */
+  sendRequest: (method: string, params?: unknown) => Promise<JSONRPCResponse>;
+  /**
+   * Report progress on the request being handled with notifications/progress.
+   * A no-op when the client did not ask for progress (no `_meta.progressToken`).
+   */
+  progress: (progress: number, total?: number, message?: string) => Promise<void>;
+  /**
+   * Send a log entry with notifications/message. Entries less severe than the
+   * level the client set with logging/setLevel are dropped.
+   */
+  log: (level: LoggingLevel, data: unknown, logger?: string) => Promise<void>;
+  /** Aborted when the client cancels the request being handled */
+  signal: AbortSignal;
+}
+
+/**
+ * Answers a mocked request. Returning undefined (or null) passes the request
+ * on to the next matching mock, or to the real server.
+ */
+export type MockHandler = (
+  request: JSONRPCRequest,
+  context: MockContext
+) => MockResult | Promise<MockResult>;
+
+export type MockResult = JSONRPCResponse | null | undefined;
+
+/**
+ * Selects requests by their params: a partial object compared recursively
+ * (arrays must match element for element), or a predicate
+ */
+export type ParamsMatcher =
+  | Record<string, unknown>
+  | ((params: unknown, request: JSONRPCRequest) => boolean);
+
+/**
+ * Options for TransportInterceptor.mockResponse()
+ */
+export interface MockOptions {
+  /** Only answer requests whose params match */
+  params?: ParamsMatcher;
+  /** Mocks with a higher priority are tried first. Default: 0 */
+  priority?: number;
+  /** Answer at most this many requests, then fall through */
+  times?: number;
+  /** Not reported by verifyMocks() when it is never used */
+  optional?: boolean;
+}
+
+/**
+ * A client request and the server's response, as stored in a cassette
+ */
+export interface CassetteInteraction {
+  request: JSONRPCRequest;
+  response: JSONRPCResponse;
+}
+
+/**
+ * Recorded client → server traffic, saved as JSON. Ids are renumbered from 1
+ * and progress tokens removed, so re-recording only changes real differences.
+ */
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Options for TransportInterceptor.insertCassette()
+ */
+export interface CassetteOptions {
+  /** 'record' saves traffic to the cassette on eject; 'replay' answers requests from it */
+  mode: 'record' | 'replay';
+  /** In replay mode, reject requests the cassette has no interaction for. Default: false */
+  strict?: boolean;
+}
+
+/**
+ * A mock as reported by TransportInterceptor.verifyMocks()
+ */
+export interface MockSummary {
+  method: string;
+  /** The mock's params matcher, if it has one */
+  params?: ParamsMatcher;
+  /** Requests the mock answered */
+  callCount: number;
+  /** Limit set with times(n) or once() */
+  expectedCalls?: number;
+}
+
+/**
+ * Result of TransportInterceptor.verifyMocks()
+ */
+export interface MockVerification {
+  /** Mocks that never answered a request */
+  unused: MockSummary[];
+  /** Mocks limited with times(n) that answered fewer than n requests */
+  underused: MockSummary[];
+  /** Requests that no mock answered and no server handled */
+  unmatched: JSONRPCRequest[];
+}
+
+/**
+ * Parameters of a notifications/progress notification
+ */
+export interface ProgressParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Per-request options for MockMCPHost.sendRequest and callTool
+ */
+export interface RequestOptions {
+  /** Cancels the request; notifications/cancelled is sent to the server */
+  signal?: AbortSignal;
+  /**
+   * Called for each notifications/progress the server sends for this request.
+   * Setting it adds a `_meta.progressToken` to the request params.
+   */
+  onProgress?: (progress: ProgressParams) => void;
+  /** Cancel the request if no response arrives within this many milliseconds */
+  timeout?: number;
+  /** Check a tools/call against the tool's schemas. Default: the host's `validateSchemas` */
+  validateSchemas?: boolean;
+}
+
 /**
  * Transport interface for MCP communication
  */
@@ -47,6 +292,23 @@ export interface MCPTransport {
   // Basic transport interface - can be extended as needed
   send?: (message: unknown) => void | Promise<void>;
   close?: () => void | Promise<void>;
+
+  /**
+   * Send a request and resolve with the response carrying the same id.
+   * MockMCPHost forwards every request that no mock answers through this.
+   */
+  request?: (request: JSONRPCRequest) => Promise<JSONRPCResponse>;
+
+  /**
+   * Register a handler for messages initiated by the server (notifications and requests)
+   */
+  onMessage?: (handler: (message: JSONRPCMessage) => void) => void;
+
+  /**
+   * Send several messages as one JSON-RPC batch and resolve with the
+   * responses to its requests, in the order they arrive
+   */
+  requestBatch?: (messages: Array<JSONRPCRequest | JSONRPCNotification>) => Promise<JSONRPCResponse[]>;
 }
 
 /**
@@ -54,7 +316,9 @@ export interface MCPTransport {
  */
 export interface MockMCPHostConfig {
   /**
-   * Whether to automatically respond to common MCP protocol messages
+   * Whether to automatically respond to common MCP protocol messages.
+   * Defaults to true, or to false when a transport is configured so that
+   * requests reach the real server.
    */
   autoRespond?: boolean;
   
@@ -72,6 +336,47 @@ export interface MockMCPHostConfig {
    * Host profile to simulate (e.g., 'Claude', 'VSCode', 'Generic')
    */
   hostProfile?: string;
+
+  /**
+   * Protocol versions the host supports. The built-in initialize responder
+   * negotiates against this list. Default: all versions known to the framework
+   */
+  protocolVersions?: string[];
+
+  /**
+   * Validate every intercepted message against the JSON-RPC 2.0 and MCP
+   * envelope rules, recording problems as protocol violations. Default: false
+   */
+  validateMessages?: boolean;
+
+  /**
+   * Validate tools/call arguments and structuredContent against the tool's
+   * inputSchema and outputSchema (from tools/list or the registry), recording
+   * 'schema.input' and 'schema.output' protocol violations. Default: true
+   */
+  validateSchemas?: boolean;
+
+  /**
+   * Page size for the built-in list responders (tools/list, resources/list,
+   * resources/templates/list, prompts/list). When set, responses carry a
+   * `nextCursor` until the last page. Default: no pagination
+   */
+  pageSize?: number;
+
+  /**
+   * Enforce the MCP lifecycle and capability negotiation. Requests before
+   * initialization completes (other than ping) and requests for capabilities
+   * the peer never advertised are rejected; requests sent before
+   * notifications/initialized are flagged. Violations are recorded on the
+   * interceptor.
+   */
+  strict?: boolean;
+
+  /**
+   * Protocol version the client requests in initialize.
+   * Default: the latest of `protocolVersions`
+   */
+  protocolVersion?: string;
 }
 
 /**
@@ -88,8 +393,327 @@ export interface MCPCapabilities {
   prompts?: {
     listChanged?: boolean;
   };
+  logging?: Record<string, unknown>;
 }
 
+/**
+ * Log severity, as in syslog (RFC 5424), from least to most severe
+ */
+export type LoggingLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+/**
+ * A log entry sent by a server, the params of notifications/message
+ */
+export interface LogMessage {
+  level: LoggingLevel;
+  /** Name of the logger that produced the entry */
+  logger?: string;
+  /** Any JSON-serializable value */
+  data: unknown;
+}
+
+/**
+ * JSON Schema object as used by tool input and output schemas
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Behavioral hints a server can attach to a tool
+ */
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+/**
+ * Tool definition as advertised by tools/list
+ */
+export interface MCPTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+  annotations?: MCPToolAnnotations;
+}
+
+/**
+ * Content blocks carried by tool results and prompt messages
+ */
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContent {
+  type: 'image';
+  data: string;
+  mimeType: string;
+}
+
+export interface AudioContent {
+  type: 'audio';
+  data: string;
+  mimeType: string;
+}
+
+export interface EmbeddedResource {
+  type: 'resource';
+  resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+}
+
+export interface ResourceLink {
+  type: 'resource_link';
+  uri: string;
+  name: string;
+  mimeType?: string;
+  description?: string;
+}
+
+export type ContentBlock = TextContent | ImageContent | AudioContent | EmbeddedResource | ResourceLink;
+
+/**
+ * Result of a tools/call request
+ */
+export interface CallToolResult {
+  content: ContentBlock[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Context passed to registered tool handlers
+ */
+export interface ToolContext extends MockContext {
+  /** The tools/call request being handled */
+  request: JSONRPCRequest;
+}
+
+/**
+ * Handler backing a tool registered on MockMCPHost
+ */
+export type ToolHandler = (
+  args: Record<string, unknown>,
+  context: ToolContext
+) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Resource as advertised by resources/list
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+/**
+ * Resource template as advertised by resources/templates/list
+ */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Body of a resource: either text or base64-encoded binary data
+ */
+export type ResourceBody = { mimeType?: string } & ({ text: string; blob?: never } | { blob: string; text?: never });
+
+/**
+ * Content registered with MockMCPHost.registerResource
+ */
+export type ResourceDefinition = ResourceBody & {
+  name?: string;
+  title?: string;
+  description?: string;
+};
+
+/**
+ * Contents entry of a resources/read result
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Reader backing a resource template. Receives the requested URI and the
+ * variables extracted from it; returns null if no such resource exists.
+ */
+export type ResourceTemplateReader = (
+  uri: string,
+  variables: Record<string, string | string[]>
+) => ResourceBody | null | Promise<ResourceBody | null>;
+
+/**
+ * Argument accepted by a prompt
+ */
+export interface MCPPromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Prompt as advertised by prompts/list
+ */
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+/**
+ * One message of a rendered prompt
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock;
+}
+
+/**
+ * Result of a prompts/get request
+ */
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
+/**
+ * Renderer backing a prompt registered on MockMCPHost. Receives validated
+ * arguments and returns the messages (or a full result with a description).
+ */
+export type PromptRenderer = (
+  args: Record<string, string>
+) => PromptMessage[] | GetPromptResult | Promise<PromptMessage[] | GetPromptResult>;
+
+/**
+ * What a server lists: its tools, resources, resource templates and prompts
+ */
+export interface MCPManifest {
+  tools: MCPTool[];
+  resources: MCPResource[];
+  resourceTemplates: MCPResourceTemplate[];
+  prompts: MCPPrompt[];
+}
+
+/**
+ * Options for MockMCPHost.fromManifest()
+ */
+export interface ManifestOptions {
+  /** Configuration for the created host */
+  config?: MockMCPHostConfig;
+  /** Seed for synthesized tool results. Default: 0 */
+  seed?: number;
+  /** Handlers replacing synthesized tool results, by tool name */
+  tools?: Record<string, ToolHandler>;
+  /** Bodies replacing synthesized resource contents, by URI */
+  resources?: Record<string, ResourceBody>;
+  /** Readers replacing synthesized resource template contents, by URI template */
+  resourceTemplates?: Record<string, ResourceTemplateReader>;
+  /** Renderers replacing synthesized prompt messages, by prompt name */
+  prompts?: Record<string, PromptRenderer>;
+}
+
+/**
+ * Capabilities a client advertises in its initialize request
+ */
+export interface MCPClientCapabilities {
+  roots?: { listChanged?: boolean };
+  sampling?: Record<string, unknown>;
+  elicitation?: Record<string, unknown>;
+}
+
+/**
+ * Filesystem or URI root exposed to the server by roots/list
+ */
+export interface Root {
+  uri: string;
+  name?: string;
+}
+
+/**
+ * Message exchanged in a sampling request or result
+ */
+export interface SamplingMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock;
+}
+
+/**
+ * Parameters of a sampling/createMessage request
+ */
+export interface CreateMessageParams {
+  messages: SamplingMessage[];
+  maxTokens: number;
+  systemPrompt?: string;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of a sampling/createMessage request
+ */
+export interface CreateMessageResult {
+  role: 'assistant';
+  content: ContentBlock;
+  model: string;
+  stopReason?: string;
+}
+
+/**
+ * Parameters of an elicitation/create request
+ */
+export interface ElicitParams {
+  message: string;
+  requestedSchema: JSONSchema;
+}
+
+/**
+ * Result of an elicitation/create request
+ */
+export interface ElicitResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, unknown>;
+}
+
+/**
+ * Client-side responder for sampling/createMessage requests
+ */
+export type SamplingHandler = (
+  params: CreateMessageParams,
+  request: JSONRPCRequest
+) => CreateMessageResult | Promise<CreateMessageResult>;
+
+/**
+ * Client-side responder for elicitation/create requests
+ */
+export type ElicitationHandler = (
+  params: ElicitParams,
+  request: JSONRPCRequest
+) => ElicitResult | Promise<ElicitResult>;
+
 /**
  * Test context for MCP applications
  */